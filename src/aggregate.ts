@@ -0,0 +1,93 @@
+import {Option, someUnchecked} from "./option.js"
+import {max as maxOf, min as minOf, sum as sumOf} from "./semigroup.js"
+import {flatten} from "./iter.js"
+
+/**
+ * Adds the values of all the Somes. Nones are ignored.
+ *
+ * @param options - Optional numbers.
+ * @returns The sum, or None if there are no Somes.
+ *
+ * @example
+ * ```ts
+ * sum([Option.Some(1), Option.None(), Option.Some(2)]) // Some(3)
+ * sum([Option.None()]) // None
+ * ```
+ */
+export function sum (options: Iterable<Option<number>>): Option<number> {
+  return Option.combineAll(options, sumOf)
+}
+
+/**
+ * Calculates the arithmetic mean of the values of all the Somes. Nones are ignored.
+ *
+ * @param options - Optional numbers.
+ * @returns The mean, or None if there are no Somes.
+ *
+ * @example
+ * ```ts
+ * mean([Option.Some(1), Option.None(), Option.Some(2)]) // Some(1.5)
+ * mean([]) // None
+ * ```
+ */
+export function mean (options: Iterable<Option<number>>): Option<number> {
+  const values = [...flatten(options)]
+  return values.length > 0
+    ? someUnchecked(values.reduce(sumOf) / values.length)
+    : Option.None()
+}
+
+/**
+ * Returns the lesser value of all the Somes. Nones are ignored.
+ *
+ * @param options - Optional numbers.
+ * @returns The minimum, or None if there are no Somes.
+ *
+ * @example
+ * ```ts
+ * min([Option.Some(3), Option.None(), Option.Some(2)]) // Some(2)
+ * min([]) // None
+ * ```
+ */
+export function min (options: Iterable<Option<number>>): Option<number> {
+  return Option.combineAll(options, minOf)
+}
+
+/**
+ * Returns the greater value of all the Somes. Nones are ignored.
+ *
+ * @param options - Optional numbers.
+ * @returns The maximum, or None if there are no Somes.
+ *
+ * @example
+ * ```ts
+ * max([Option.Some(3), Option.None(), Option.Some(2)]) // Some(3)
+ * max([]) // None
+ * ```
+ */
+export function max (options: Iterable<Option<number>>): Option<number> {
+  return Option.combineAll(options, maxOf)
+}
+
+/**
+ * Returns the median of the values of all the Somes. Nones are ignored. If there is an
+ * even amount of values, the result is the mean of the 2 middle values.
+ *
+ * @param options - Optional numbers.
+ * @returns The median, or None if there are no Somes.
+ *
+ * @example
+ * ```ts
+ * median([Option.Some(3), Option.None(), Option.Some(1), Option.Some(2)]) // Some(2)
+ * median([Option.Some(1), Option.Some(4)]) // Some(2.5)
+ * median([]) // None
+ * ```
+ */
+export function median (options: Iterable<Option<number>>): Option<number> {
+  const values = [...flatten(options)].sort((a, b) => a - b)
+  const middle = Math.floor(values.length / 2)
+  if (values.length === 0) {
+    return Option.None()
+  }
+  return someUnchecked(values.length % 2 === 0 ? (values[middle - 1] + values[middle]) / 2 : values[middle])
+}
@@ -0,0 +1,50 @@
+import {Option} from "./option.js"
+import {None, Some} from "./types.js";
+
+/**
+ * Asserts that an option is Some. After calling this function the option is narrowed to
+ * {@link Some | `Some`}, so the value can be accessed safely with
+ * {@link Option.get | `get`}.
+ *
+ * @typeParam T - Any type
+ * @param opt - Option to check
+ * @param err - Error thrown if the option is None
+ * @throws The given error if the option is None.
+ *
+ * @example
+ * ```ts
+ * const opt: Option<number> = Option.Some(10)
+ * assertSome(opt)
+ * opt.get() // 10
+ *
+ * assertSome(Option.None(), new Error('missing')) // throws Error: 'missing'
+ * ```
+ */
+export function assertSome<T>(opt: Option<T>, err: Error = new Error('assertSome over None.')): asserts opt is Some<T> {
+  if (opt.isNone()) {
+    throw err
+  }
+}
+
+/**
+ * Asserts that an option is None. After calling this function the option is narrowed
+ * to {@link None | `None`}.
+ *
+ * @typeParam T - Any type
+ * @param opt - Option to check
+ * @param err - Error thrown if the option is Some
+ * @throws The given error if the option is Some.
+ *
+ * @example
+ * ```ts
+ * const opt: Option<number> = Option.None()
+ * assertNone(opt)
+ *
+ * assertNone(Option.Some(1), new Error('unexpected value')) // throws Error: 'unexpected value'
+ * ```
+ */
+export function assertNone<T>(opt: Option<T>, err: Error = new Error('assertNone over Some.')): asserts opt is None<T> {
+  if (opt.isSome()) {
+    throw err
+  }
+}
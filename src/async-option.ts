@@ -0,0 +1,236 @@
+import {Option, someUnchecked} from "./option.js"
+import {Generator, MaybePromise} from "./types.js";
+
+/**
+ * An AsyncOption represents an optional value that is going to be available in the future.
+ *
+ * It allows to chain operations over the optional value using sync or async callbacks
+ * without having to deal with `Promise<Option<T>>` by hand. The steps of the chain
+ * are lazy: nothing is executed until the instance is awaited.
+ *
+ * Awaiting an AsyncOption returns a regular {@link Option | `Option`}.
+ *
+ * @example
+ * ```ts
+ * const opt: Option<string> = await Option.fromPromise(fetchUserId())
+ *   .andThenAsync(id => findUser(id))
+ *   .filterAsync(user => isActive(user))
+ *   .mapAsync(user => user.name)
+ * ```
+ *
+ * By default rejected promises are propagated. The chain can opt in to transform rejections
+ * into None using {@link AsyncOption.noneOnReject | `noneOnReject`}.
+ *
+ * @param T - The type of the object wrapped by the optional
+ */
+export class AsyncOption<T> implements PromiseLike<Option<T>> {
+  /**
+   * @hidden
+   * @private
+   */
+  private readonly producer: Generator<Promise<Option<T>>>
+
+  /**
+   * @hidden
+   * @private
+   */
+  private readonly result: Option<Promise<Option<T>>>
+
+  /**
+   * @hidden
+   * @param producer - Generates the optional value. Called at most once.
+   * @private
+   */
+  private constructor (producer: Generator<Promise<Option<T>>>) {
+    this.producer = producer
+    this.result = Option.None()
+  }
+
+  /**
+   * Creates an AsyncOption from an already available option.
+   *
+   * @param opt - Option to wrap
+   * @typeParam T - Type of the value that the Option may contain.
+   * @returns An AsyncOption that resolves to the given option.
+   *
+   * @example
+   * ```ts
+   * const asyncOpt = AsyncOption.fromOption(Option.Some(10))
+   * await asyncOpt // Some(10)
+   * ```
+   */
+  static fromOption<T> (opt: Option<T>): AsyncOption<T> {
+    return new AsyncOption(() => Promise.resolve(opt))
+  }
+
+  /**
+   * Creates an AsyncOption from a promise of an option.
+   *
+   * @param promise - Promise that resolves to an option.
+   * @typeParam T - Type of the value that the Option may contain.
+   * @returns An AsyncOption that resolves to the same option as the promise.
+   *
+   * @example
+   * ```ts
+   * const asyncOpt = AsyncOption.fromPromise(Promise.resolve(Option.None()))
+   * await asyncOpt // None
+   * ```
+   */
+  static fromPromise<T> (promise: PromiseLike<Option<T>>): AsyncOption<T> {
+    return new AsyncOption(() => Promise.resolve(promise))
+  }
+
+  /**
+   * Transforms the value using the given function. The function can return
+   * a value or a promise of a value. It's not called if the option resolves to None.
+   *
+   * @param fn - Sync or async mapping function.
+   * @typeParam U - The type of the value after the transformation.
+   * @returns A new AsyncOption with the mapped value.
+   *
+   * @example
+   * ```ts
+   * await AsyncOption.fromOption(Option.Some(5)).mapAsync(async n => n * 2) // Some(10)
+   * await AsyncOption.fromOption(Option.None<number>()).mapAsync(async n => n * 2) // None
+   * ```
+   */
+  mapAsync<U> (fn: (t: T) => MaybePromise<U>): AsyncOption<U> {
+    return new AsyncOption(async () => {
+      const opt = await this.run()
+      return opt.mapOrElse(
+        async () => Option.None<U>(),
+        async t => someUnchecked<U>(await fn(t))
+      )
+    })
+  }
+
+  /**
+   * Chains a sync or async function that returns an option. It's not called
+   * if the option resolves to None.
+   *
+   * @param fn - Function that generates the next option.
+   * @typeParam U - The type contained in the option returned by the function.
+   * @returns A new AsyncOption with the result of the function.
+   *
+   * @example
+   * ```ts
+   * const findUser = async (id: number) => Option.fromNullable(users.get(id))
+   * await AsyncOption.fromOption(Option.Some(1)).andThenAsync(findUser) // Some(user) or None
+   * ```
+   */
+  andThenAsync<U> (fn: (t: T) => MaybePromise<Option<U>>): AsyncOption<U> {
+    return new AsyncOption(async () => {
+      const opt = await this.run()
+      return opt.mapOrElse<MaybePromise<Option<U>>>(() => Option.None(), fn)
+    })
+  }
+
+  /**
+   * Filters the value using a sync or async predicate. If the predicate resolves to false
+   * the result is None.
+   *
+   * @param fn - Sync or async predicate.
+   * @returns A new AsyncOption that only contains the value if the predicate passes.
+   *
+   * @example
+   * ```ts
+   * await AsyncOption.fromOption(Option.Some(5)).filterAsync(async n => n > 3) // Some(5)
+   * await AsyncOption.fromOption(Option.Some(1)).filterAsync(async n => n > 3) // None
+   * ```
+   */
+  filterAsync (fn: (t: T) => MaybePromise<boolean>): AsyncOption<T> {
+    return new AsyncOption(async () => {
+      const opt = await this.run()
+      return opt.mapOrElse(
+        async () => Option.None<T>(),
+        async t => await fn(t) ? someUnchecked(t) : Option.None<T>()
+      )
+    })
+  }
+
+  /**
+   * If the option resolves to None, the given function is used to generate a new option.
+   * The function can be sync or async.
+   *
+   * @param fn - Function to generate an alternative option.
+   * @returns A new AsyncOption.
+   *
+   * @example
+   * ```ts
+   * await AsyncOption.fromOption(Option.None()).orElseAsync(async () => Option.Some('bar')) // Some('bar')
+   * ```
+   */
+  orElseAsync (fn: Generator<MaybePromise<Option<T>>>): AsyncOption<T> {
+    return new AsyncOption(async () => {
+      const opt = await this.run()
+      return opt.isSome() ? opt : fn()
+    })
+  }
+
+  /**
+   * Opt in to transform a rejection in any previous step of the chain into None.
+   *
+   * @returns A new AsyncOption that never rejects because of previous steps.
+   *
+   * @example
+   * ```ts
+   * await AsyncOption.fromPromise(Promise.reject(new Error())) // throws
+   * await AsyncOption.fromPromise(Promise.reject(new Error())).noneOnReject() // None
+   * ```
+   */
+  noneOnReject (): AsyncOption<T> {
+    return new AsyncOption(() => this.run().catch(() => Option.None<T>()))
+  }
+
+  /**
+   * Resolves the option and returns the contained value. If the option resolves
+   * to None, the given function is called and its result is returned. The function
+   * can be sync or async.
+   *
+   * @param fn - Function to generate a default value.
+   * @returns A promise with the contained value or the default one.
+   *
+   * @example
+   * ```ts
+   * await AsyncOption.fromOption(Option.Some('foo')).unwrapOrElseAsync(async () => 'bar') // 'foo'
+   * await AsyncOption.fromOption(Option.None()).unwrapOrElseAsync(async () => 'bar') // 'bar'
+   * ```
+   */
+  async unwrapOrElseAsync (fn: Generator<MaybePromise<T>>): Promise<T> {
+    const opt = await this.run()
+    return opt.mapOrElse<MaybePromise<T>>(fn, t => t)
+  }
+
+  /**
+   * Makes AsyncOption awaitable. Triggers the execution of the chain, which is only executed
+   * once no matter how many times the instance is awaited.
+   *
+   * @param onfulfilled - Called with the resulting option.
+   * @param onrejected - Called if any step of the chain fails.
+   * @returns A promise with the result of the callbacks.
+   */
+  then<R1 = Option<T>, R2 = never> (
+    onfulfilled?: ((value: Option<T>) => MaybePromise<R1>) | null,
+    onrejected?: ((reason: unknown) => MaybePromise<R2>) | null
+  ): Promise<R1 | R2> {
+    return this.run().then(onfulfilled, onrejected)
+  }
+
+  /**
+   * Allows to use async options with `for await`, producing the value once if the option
+   * resolves to Some.
+   *
+   * @returns An async iterator over the content of the option.
+   */
+  async *[Symbol.asyncIterator] (): AsyncIterator<T, undefined, unknown> {
+    yield* await this.run()
+  }
+
+  /**
+   * @hidden
+   * @private
+   */
+  private run (): Promise<Option<T>> {
+    return this.result.getOrInsertWith(this.producer)
+  }
+}
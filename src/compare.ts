@@ -0,0 +1,87 @@
+import {Option} from "./option.js"
+import {Comparator} from "./types.js"
+
+/**
+ * Defines where Nones are placed when sorting options. Following rust, by default
+ * None goes before any Some.
+ *
+ * @example
+ * ```ts
+ * const first: NoneOrdering = { noneFirst: true }
+ * const last: NoneOrdering = { noneLast: true }
+ * ```
+ */
+export type NoneOrdering = { noneFirst: true, noneLast?: never } | { noneLast: true, noneFirst?: never }
+
+/**
+ * Compares values using `<` and `>`. Works for numbers, strings, bigints and dates.
+ *
+ * @param a - Any value
+ * @param b - Any value
+ * @returns -1, 0 or 1.
+ *
+ * @example
+ * ```ts
+ * [3, 1, 2].sort(naturalOrder) // [1, 2, 3]
+ * ```
+ */
+export function naturalOrder<T> (a: T, b: T): number {
+  if (a < b) {
+    return -1
+  }
+  return a > b ? 1 : 0
+}
+
+/**
+ * Creates a comparator for options, meant to be used with `Array#sort`. Somes are
+ * compared using the given comparator, and Nones are placed first or last.
+ *
+ * @param cmp - Comparator for the values inside the options.
+ * @param ordering - Where to place the Nones. By default they go first.
+ * @typeParam T - Type of the values inside the options.
+ * @returns A comparator for options.
+ *
+ * @example
+ * ```ts
+ * const opts = [Option.Some(2), Option.None(), Option.Some(1)]
+ * opts.sort(comparator()) // [None, Some(1), Some(2)]
+ * opts.sort(comparator(naturalOrder, { noneLast: true })) // [Some(1), Some(2), None]
+ * ```
+ */
+export function comparator<T> (cmp: Comparator<T> = naturalOrder, ordering: NoneOrdering = { noneFirst: true }): Comparator<Option<T>> {
+  const sign = ordering.noneLast ? -1 : 1
+  return (a, b) => a.isSome() && b.isSome()
+    ? cmp(a.get(), b.get())
+    : sign * a.compare(b, cmp)
+}
+
+/**
+ * Returns a sorted copy of the array, ordered by an optional key extracted from each element.
+ * Elements with equivalent keys keep their original order.
+ *
+ * @param array - Elements to sort. The array is not modified.
+ * @param keyFn - Extracts the key of each element.
+ * @param cmp - Comparator for the keys.
+ * @param ordering - Where to place the elements with None keys. By default they go first.
+ * @typeParam A - Type of the elements.
+ * @typeParam K - Type of the keys.
+ * @returns A new sorted array.
+ *
+ * @example
+ * ```ts
+ * const users = [{ name: 'a', age: Option.Some(30) }, { name: 'b', age: Option.None() }, { name: 'c', age: Option.Some(20) }]
+ * sortByOption(users, u => u.age, naturalOrder, { noneLast: true }).map(u => u.name) // ['c', 'a', 'b']
+ * ```
+ */
+export function sortByOption<A, K> (
+  array: readonly A[],
+  keyFn: (a: A) => Option<K>,
+  cmp: Comparator<K> = naturalOrder,
+  ordering: NoneOrdering = { noneFirst: true }
+): A[] {
+  const cmpKeys = comparator(cmp, ordering)
+  return array
+    .map(elem => ({ elem, key: keyFn(elem) }))
+    .sort((a, b) => cmpKeys(a.key, b.key))
+    .map(({ elem }) => elem)
+}
@@ -0,0 +1,104 @@
+import {Option} from "./option.js"
+import {OptionContractError} from "./errors.js"
+
+/**
+ * What to do when {@link Option.Some | `Option.Some`} receives `null` or `undefined`:
+ *
+ * - `allow`: create the Some, like in previous versions.
+ * - `warn`: create the Some and log a warning.
+ * - `throw`: throw an {@link OptionContractError | `OptionContractError`}.
+ */
+export type NullishPolicy = 'allow' | 'warn' | 'throw'
+
+/**
+ * Runtime checks that can be enabled with {@link Option.configure | `Option.configure`}.
+ * Every check is disabled by default.
+ */
+export interface OptionConfig {
+  /**
+   * Policy for Somes created with `null` or `undefined` by {@link Option.Some | `Option.Some`}.
+   * The options created by other methods, like {@link Option.map | `map`} or the decoders,
+   * are not checked. Defaults to `allow`.
+   */
+  readonly someNullish?: NullishPolicy
+  /**
+   * When true, the functions given to {@link Option.andThen | `andThen`} and
+   * {@link Option.orElse | `orElse`} are checked to return options, and
+   * {@link Option.flatten | `flatten`} is checked to be called over an option of options.
+   * Defaults to false.
+   */
+  readonly validateCallbacks?: boolean
+}
+
+let config: Required<OptionConfig> = {
+  someNullish: 'allow',
+  validateCallbacks: false
+}
+
+/**
+ * @hidden
+ */
+export function configure (next: OptionConfig): void {
+  config = { ...config, ...next }
+}
+
+const show = (value: unknown): string => {
+  if (typeof value === 'string') {
+    return `'${value}'`
+  }
+  if (typeof value === 'function') {
+    return 'a function'
+  }
+  if (typeof value === 'object' && value !== null) {
+    return `an instance of ${value.constructor?.name ?? 'Object'}`
+  }
+  return String(value)
+}
+
+/**
+ * Applies the nullish policy to the value of a new Some.
+ *
+ * @hidden
+ */
+export function checkSome (value: unknown): void {
+  if (config.someNullish === 'allow' || (value !== null && value !== undefined)) {
+    return
+  }
+  const message = `Option.Some received ${value}. Use Option.fromNullable to get None for ` +
+    `nullish values, or Option.None() if the value is known to be absent.`
+  if (config.someNullish === 'throw') {
+    throw new OptionContractError(message)
+  }
+  console.warn(message)
+}
+
+/**
+ * Checks that the result of a callback is an option.
+ *
+ * @hidden
+ */
+export function checkCallbackResult (method: string, result: unknown): void {
+  if (!config.validateCallbacks || Option.isOption(result)) {
+    return
+  }
+  throw new OptionContractError(
+    `The function given to ${method} returned ${show(result)} instead of an Option. ` +
+    `Wrap the result with Option.Some or Option.fromNullable, or use map if the function ` +
+    `returns a plain value.`
+  )
+}
+
+/**
+ * Checks that the value of a Some being flattened is an option.
+ *
+ * @hidden
+ */
+export function checkFlatten (value: unknown): void {
+  if (!config.validateCallbacks || Option.isOption(value)) {
+    return
+  }
+  throw new OptionContractError(
+    `flatten was called over a Some containing ${show(value)}. Only options of options ` +
+    `can be flattened.`
+  )
+}
@@ -0,0 +1,286 @@
+import {Option, someUnchecked} from "./option.js"
+import {Result} from "./result.js"
+
+/**
+ * Segment of the path to a value inside the decoded input. Strings are object keys,
+ * numbers are array indexes.
+ */
+export type PathSegment = string | number
+
+/**
+ * Describes why a value could not be decoded.
+ */
+export interface DecodeFailure {
+  /**
+   * Location of the value inside the input.
+   */
+  path: PathSegment[]
+  /**
+   * Description of what was expected at that location.
+   */
+  expected: string
+  /**
+   * The value found at that location.
+   */
+  received: unknown
+}
+
+/**
+ * Context passed through decoders to collect failures. Decoders that do not
+ * care about reporting can ignore it.
+ */
+export interface DecodeContext {
+  path: PathSegment[]
+  failures: DecodeFailure[]
+}
+
+/**
+ * A decoder is a {@link TransformToOption | `TransformToOption`} from unknown input to a
+ * typed value. It returns None when the input does not have the expected shape.
+ *
+ * Decoders can optionally receive a context to report the failures.
+ *
+ * @param T - The type of the decoded value
+ *
+ * @example
+ * ```ts
+ * const positive: Decoder<number> = (input) => number(input).filter(n => n > 0)
+ * ```
+ */
+export type Decoder<T> = (input: unknown, context?: DecodeContext) => Option<T>
+
+/**
+ * Extracts the decoded type from a decoder.
+ *
+ * @param D - Any decoder
+ *
+ * @example
+ * ```ts
+ * const user = object({ name: string, age: optionalField(number) })
+ * type User = DecoderType<typeof user> // { name: string, age: Option<number> }
+ * ```
+ */
+export type DecoderType<D> = D extends Decoder<infer T> ? T : never
+
+type ShapeType<S extends Record<string, Decoder<unknown>>> = {
+  [K in keyof S]: DecoderType<S[K]>
+}
+
+const fail = (context: DecodeContext | undefined, expected: string, received: unknown): void => {
+  context?.failures.push({ path: context.path, expected, received })
+}
+
+const at = (context: DecodeContext | undefined, segment: PathSegment): DecodeContext | undefined =>
+  context && { path: [...context.path, segment], failures: context.failures }
+
+const isRecord = (input: unknown): input is Record<string, unknown> =>
+  typeof input === 'object' && input !== null && !Array.isArray(input)
+
+const primitive = <T>(expected: string, guard: (input: unknown) => input is T): Decoder<T> =>
+  (input, context) => (guard(input) ? someUnchecked(input) : Option.None<T>())
+    .ifNone(() => fail(context, expected, input))
+
+/**
+ * Decodes strings.
+ *
+ * @example
+ * ```ts
+ * string('foo') // Some('foo')
+ * string(10) // None
+ * ```
+ */
+export const string: Decoder<string> = primitive('string', (input): input is string => typeof input === 'string')
+
+/**
+ * Decodes numbers. `NaN` is not considered a valid number.
+ *
+ * @example
+ * ```ts
+ * number(10) // Some(10)
+ * number('10') // None
+ * ```
+ */
+export const number: Decoder<number> = primitive('number', (input): input is number =>
+  typeof input === 'number' && !Number.isNaN(input))
+
+/**
+ * Decodes booleans.
+ *
+ * @example
+ * ```ts
+ * boolean(true) // Some(true)
+ * boolean('true') // None
+ * ```
+ */
+export const boolean: Decoder<boolean> = primitive('boolean', (input): input is boolean => typeof input === 'boolean')
+
+/**
+ * Creates a decoder that only accepts the given value, compared with `===`.
+ *
+ * @param value - The only accepted value.
+ * @typeParam L - Type of the literal.
+ * @returns A decoder for the literal.
+ *
+ * @example
+ * ```ts
+ * const admin = literal('admin')
+ * admin('admin') // Some('admin')
+ * admin('user') // None
+ * ```
+ */
+export function literal<L extends string | number | boolean | null> (value: L): Decoder<L> {
+  return primitive(JSON.stringify(value), (input): input is L => input === value)
+}
+
+/**
+ * Creates a decoder for arrays where every element is decoded with the given decoder.
+ * If any element fails the whole array fails.
+ *
+ * @param item - Decoder for the elements.
+ * @typeParam T - Type of the elements.
+ * @returns A decoder for the array.
+ *
+ * @example
+ * ```ts
+ * const numbers = array(number)
+ * numbers([1, 2]) // Some([1, 2])
+ * numbers([1, '2']) // None
+ * ```
+ */
+export function array<T> (item: Decoder<T>): Decoder<T[]> {
+  return (input, context) => {
+    if (!Array.isArray(input)) {
+      fail(context, 'array', input)
+      return Option.None()
+    }
+    return Option.all(input.map((elem, i) => item(elem, at(context, i))))
+  }
+}
+
+/**
+ * Creates a decoder for objects used as dictionaries, where every value is decoded with the
+ * given decoder.
+ *
+ * @param value - Decoder for the values.
+ * @typeParam T - Type of the values.
+ * @returns A decoder for the record.
+ *
+ * @example
+ * ```ts
+ * const scores = record(number)
+ * scores({ a: 1, b: 2 }) // Some({ a: 1, b: 2 })
+ * scores({ a: 1, b: '2' }) // None
+ * ```
+ */
+export function record<T> (value: Decoder<T>): Decoder<Record<string, T>> {
+  return (input, context) => {
+    if (!isRecord(input)) {
+      fail(context, 'object', input)
+      return Option.None()
+    }
+    const entries = Object.entries(input).map(([key, v]) => [key, value(v, at(context, key))])
+    return Option.allRecord(Object.fromEntries(entries) as Record<string, Option<T>>)
+  }
+}
+
+/**
+ * Creates a decoder for objects with a known shape. Each key is decoded with its own decoder.
+ * Extra keys in the input are ignored.
+ *
+ * Missing keys are passed to the decoders as `undefined`, so they fail unless the decoder is
+ * wrapped with {@link optionalField | `optionalField`}.
+ *
+ * @param shape - Object with a decoder for each key.
+ * @typeParam S - Shape of the decoders.
+ * @returns A decoder for the object.
+ *
+ * @example
+ * ```ts
+ * const user = object({ name: string, age: optionalField(number) })
+ * user({ name: 'foo' }) // Some({ name: 'foo', age: None })
+ * user({ name: 'foo', age: 10 }) // Some({ name: 'foo', age: Some(10) })
+ * user({ age: 10 }) // None
+ * ```
+ */
+export function object<S extends Record<string, Decoder<unknown>>> (shape: S): Decoder<ShapeType<S>> {
+  return (input, context) => {
+    if (!isRecord(input)) {
+      fail(context, 'object', input)
+      return Option.None()
+    }
+    const entries = Object.entries(shape).map(([key, decoder]) => [key, decoder(input[key], at(context, key))])
+    return Option.allRecord(Object.fromEntries(entries)) as Option<ShapeType<S>>
+  }
+}
+
+/**
+ * Creates a decoder that tries each of the given decoders in order, and returns the
+ * result of the first one that succeeds.
+ *
+ * @param decoders - Alternatives to try.
+ * @typeParam D - Types of the decoders.
+ * @returns A decoder for the union of all the types.
+ *
+ * @example
+ * ```ts
+ * const id = union(string, number)
+ * id('foo') // Some('foo')
+ * id(10) // Some(10)
+ * id(true) // None
+ * ```
+ */
+export function union<D extends Decoder<unknown>[]> (...decoders: D): Decoder<DecoderType<D[number]>> {
+  return (input, context) => decoders
+    .reduce<Option<DecoderType<D[number]>>>(
+      (acc, decoder) => acc.orElse(() => decoder(input) as Option<DecoderType<D[number]>>),
+      Option.None()
+    )
+    .ifNone(() => fail(context, 'union', input))
+}
+
+/**
+ * Wraps a decoder to accept missing values. `undefined` and `null` are decoded as None,
+ * any other value is decoded with the given decoder and wrapped in Some.
+ *
+ * @param decoder - Decoder for present values.
+ * @typeParam T - Type of the present values.
+ * @returns A decoder for an optional value.
+ *
+ * @example
+ * ```ts
+ * const maybeNumber = optionalField(number)
+ * maybeNumber(undefined) // Some(None)
+ * maybeNumber(10) // Some(Some(10))
+ * maybeNumber('10') // None
+ * ```
+ */
+export function optionalField<T> (decoder: Decoder<T>): Decoder<Option<T>> {
+  return (input, context) => Option.fromNullable(input).match({
+    some: value => decoder(value, context).mapOrElse(
+      () => Option.None<Option<T>>(),
+      decoded => someUnchecked(someUnchecked(decoded))
+    ),
+    none: () => someUnchecked(Option.None<T>())
+  })
+}
+
+/**
+ * Decodes the input reporting the failures. Returns Ok with the decoded value, or Err with
+ * the list of failures, each one with the path to the value that failed.
+ *
+ * @param decoder - Decoder to use.
+ * @param input - Value to decode.
+ * @typeParam T - Type of the decoded value.
+ * @returns The decoded value or the failures.
+ *
+ * @example
+ * ```ts
+ * const user = object({ name: string, tags: array(string) })
+ * decodeWithReport(user, { name: 'foo', tags: ['a', 1] })
+ * // Err([{ path: ['tags', 1], expected: 'string', received: 1 }])
+ * ```
+ */
+export function decodeWithReport<T> (decoder: Decoder<T>, input: unknown): Result<T, DecodeFailure[]> {
+  const context: DecodeContext = { path: [], failures: [] }
+  return decoder(input, context).okOrElse(() => context.failures)
+}
@@ -0,0 +1,157 @@
+import {Option} from "./option.js"
+
+/**
+ * Symbol used to implement the {@link Equatable | `Equatable`} protocol.
+ *
+ * It's registered with `Symbol.for`, so different copies of the library share the same symbol.
+ */
+export const equalsSymbol: unique symbol = Symbol.for('nochoices.equals')
+
+/**
+ * Protocol for values that know how to compare themselves with other values.
+ * {@link Option.equalsDeep | `Option#equalsDeep`} and {@link deepEqual | `deepEqual`}
+ * delegate to this method instead of comparing the values structurally.
+ *
+ * @example
+ * ```ts
+ * class Money implements Equatable {
+ *   constructor (readonly amount: number, readonly currency: string) {}
+ *
+ *   [equalsSymbol] (other: unknown): boolean {
+ *     return other instanceof Money && this.amount === other.amount && this.currency === other.currency
+ *   }
+ * }
+ *
+ * Option.Some(new Money(10, 'USD')).equalsDeep(Option.Some(new Money(10, 'USD'))) // true
+ * ```
+ */
+export interface Equatable {
+  [equalsSymbol] (other: unknown): boolean
+}
+
+type Visited = Map<object, Set<object>>
+
+const isEquatable = (value: object): value is Equatable =>
+  typeof (value as Partial<Equatable>)[equalsSymbol] === 'function'
+
+const sameValueZero = (a: unknown, b: unknown): boolean =>
+  a === b || (Number.isNaN(a) && Number.isNaN(b))
+
+const alreadyCompared = (visited: Visited, a: object, b: object): boolean => {
+  const seen = visited.get(a) ?? new Set<object>()
+  if (seen.has(b)) {
+    return true
+  }
+  visited.set(a, seen.add(b))
+  return false
+}
+
+const compareArrays = (a: unknown[], b: unknown[], visited: Visited): boolean =>
+  a.length === b.length && a.every((elem, i) => compare(elem, b[i], visited))
+
+const compareMaps = (a: Map<unknown, unknown>, b: Map<unknown, unknown>, visited: Visited): boolean =>
+  a.size === b.size && [...a].every(([key, value]) => b.has(key) && compare(value, b.get(key), visited))
+
+// Failed attempts must not leave pairs marked as compared, so each attempt gets its own copy.
+const copyVisited = (visited: Visited): Visited =>
+  new Map([...visited].map(([key, seen]) => [key, new Set(seen)]))
+
+const compareSets = (a: Set<unknown>, b: Set<unknown>, visited: Visited): boolean => {
+  if (a.size !== b.size) {
+    return false
+  }
+  // Elements present in both sets match themselves. The rest are matched one to one, so each
+  // element of b can be used only once.
+  const pending = [...b].filter(elem => !a.has(elem))
+  return [...a].filter(elem => !b.has(elem)).every(elem => {
+    const index = pending.findIndex(other => compare(elem, other, copyVisited(visited)))
+    if (index === -1) {
+      return false
+    }
+    pending.splice(index, 1)
+    return true
+  })
+}
+
+const compareObjects = (a: object, b: object, visited: Visited): boolean => {
+  const keysA = Object.keys(a)
+  const keysB = Object.keys(b)
+  return keysA.length === keysB.length && keysA.every(key =>
+    Object.prototype.hasOwnProperty.call(b, key) &&
+    compare((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key], visited))
+}
+
+function compare (a: unknown, b: unknown, visited: Visited): boolean {
+  if (sameValueZero(a, b)) {
+    return true
+  }
+
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false
+  }
+
+  if (isEquatable(a)) {
+    return a[equalsSymbol](b)
+  }
+
+  // Options from different copies of the library have different prototypes but can be equal.
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b) && !(Option.isOption(a) && Option.isOption(b))) {
+    return false
+  }
+
+  if (alreadyCompared(visited, a, b)) {
+    return true
+  }
+
+  if (Option.isOption(a)) {
+    return Option.adopt(a).equalsWith(Option.adopt(b as Option<unknown>), (x, y) => compare(x, y, visited))
+  }
+
+  if (a instanceof Date) {
+    return sameValueZero(a.getTime(), (b as Date).getTime())
+  }
+
+  if (Array.isArray(a)) {
+    return compareArrays(a, b as unknown[], visited)
+  }
+
+  if (a instanceof Map) {
+    return compareMaps(a, b as Map<unknown, unknown>, visited)
+  }
+
+  if (a instanceof Set) {
+    return compareSets(a, b as Set<unknown>, visited)
+  }
+
+  return compareObjects(a, b, visited)
+}
+
+/**
+ * Compares two values structurally.
+ *
+ * - Primitives are compared with `===`, except `NaN` that is equal to itself.
+ * - Values implementing {@link Equatable | `Equatable`} are compared using their own method.
+ * - Objects with different prototypes are never equal.
+ * - Options are equal if both are None, or both are Some with deep equal values.
+ * - Dates are compared by time.
+ * - Arrays are compared element by element.
+ * - Maps must have the same keys (compared with `===`) with deep equal values.
+ * - Sets must have the same size, and each element must have a deep equal element in the other set.
+ * - Any other object is compared by its own enumerable keys.
+ *
+ * Cyclic structures are supported: a pair of objects that is already being compared
+ * is considered equal.
+ *
+ * @param a - Any value
+ * @param b - Any value
+ * @returns true if both values are structurally equal.
+ *
+ * @example
+ * ```ts
+ * deepEqual({ tags: ['a'], at: new Date(0) }, { tags: ['a'], at: new Date(0) }) // true
+ * deepEqual([Option.Some(1)], [Option.Some(2)]) // false
+ * ```
+ */
+export function deepEqual (a: unknown, b: unknown): boolean {
+  return compare(a, b, new Map())
+}
@@ -0,0 +1,100 @@
+import {ResultValue} from "./result-value.js"
+import {Result} from "./result.js"
+import {Option, someUnchecked} from "./option.js"
+
+export class Err<T, E> extends ResultValue<T, E> {
+  error: E
+
+  constructor (error: E) {
+    super()
+    this.error = error
+  }
+
+  isOk (): boolean {
+    return false
+  }
+
+  isErr (): boolean {
+    return true
+  }
+
+  unwrap (): T {
+    throw new Error('unwrap over Err.', { cause: this.error })
+  }
+
+  unwrapErr (): E {
+    return this.error
+  }
+
+  expect (err: Error): T {
+    throw err
+  }
+
+  expectErr (_err: Error): E {
+    return this.error
+  }
+
+  unwrapOr (defaultValue: T): T {
+    return defaultValue
+  }
+
+  unwrapOrElse (fn: (e: E) => T): T {
+    return fn(this.error)
+  }
+
+  map<U> (_fn: (t: T) => U): Result<U, E> {
+    return Result.Err(this.error)
+  }
+
+  mapErr<F> (fn: (e: E) => F): Result<T, F> {
+    return Result.Err(fn(this.error))
+  }
+
+  mapOrElse<U> (defFn: (e: E) => U, _mapFn: (t: T) => U): U {
+    return defFn(this.error)
+  }
+
+  and<U> (_another: Result<U, E>): Result<U, E> {
+    return Result.Err(this.error)
+  }
+
+  or<F> (another: Result<T, F>): Result<T, F> {
+    return another
+  }
+
+  andThen<U> (_fn: (t: T) => Result<U, E>): Result<U, E> {
+    return Result.Err(this.error)
+  }
+
+  orElse<F> (fn: (e: E) => Result<T, F>): Result<T, F> {
+    return fn(this.error)
+  }
+
+  isOkAnd (_fn: (t: T) => boolean): boolean {
+    return false
+  }
+
+  isErrAnd (fn: (e: E) => boolean): boolean {
+    return fn(this.error)
+  }
+
+  ok (): Option<T> {
+    return Option.None()
+  }
+
+  err (): Option<E> {
+    return someUnchecked(this.error)
+  }
+
+  ifOk (_fn: (t: T) => void): void {
+    /* no-op */
+  }
+
+  ifErr (fn: (e: E) => void): void {
+    fn(this.error)
+  }
+
+  toArray (): T[] {
+    return []
+  }
+}
@@ -0,0 +1,138 @@
+import {describe, Provenance} from "./provenance.js"
+
+/**
+ * Error thrown when the value of an option is required but the option is None. It's
+ * thrown by {@link Option.unwrap | `Option#unwrap`}, and by
+ * {@link Option.expect | `Option#expect`} when it receives a message.
+ *
+ * The {@link UnwrapNoneError.code | `code`} is stable between versions, so it's safe to
+ * use it to identify the error, even when there are many copies of the library installed.
+ *
+ * Supports `cause` chaining, to record which option of a chain was absent. A None created
+ * with a `cause` keeps it through the chain, and it becomes the cause of the error.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   Option.None().unwrap()
+ * } catch (e) {
+ *   e instanceof UnwrapNoneError // true
+ *   e.code // 'ERR_UNWRAP_NONE'
+ * }
+ *
+ * const city = user.andThen(u => u.address).map(a => a.city)
+ * city.expect('city is required', { cause: new UnwrapNoneError('user without address') })
+ *
+ * const street = user
+ *   .andThen(u => u.address.or(Option.None({ cause: new UnwrapNoneError(`user ${u.id} without address`) })))
+ *   .map(a => a.street)
+ * street.expect('street is required') // the cause is the error of the user without address
+ * ```
+ */
+export class UnwrapNoneError extends Error {
+  /**
+   * Stable identifier of the error.
+   */
+  static readonly code = 'ERR_UNWRAP_NONE'
+
+  /**
+   * Stable identifier of the error.
+   */
+  readonly code = UnwrapNoneError.code
+
+  /**
+   * Where the None came from, when provenance tracking is enabled with
+   * {@link Option.trackProvenance | `Option.trackProvenance`}. It's also included in the message.
+   */
+  readonly provenance?: Provenance
+
+  /**
+   * @param message - Description of the missing value.
+   * @param options - Standard error options, like `cause`, and the provenance of the None.
+   */
+  constructor (message = 'unwrap over None.', options?: ErrorOptions & { provenance?: Provenance }) {
+    super(options?.provenance === undefined ? message : `${message}\n${describe(options.provenance)}`, options)
+    this.name = 'UnwrapNoneError'
+    this.provenance = options?.provenance
+  }
+}
+
+/**
+ * Error thrown when an option is misused and the runtime checks enabled with
+ * {@link Option.configure | `Option.configure`} are active. For example, when the function
+ * given to {@link Option.andThen | `andThen`} returns a plain value instead of an option.
+ *
+ * @example
+ * ```ts
+ * Option.configure({ validateCallbacks: true })
+ * Option.Some(1).andThen(n => n + 1) // throws OptionContractError
+ * ```
+ */
+export class OptionContractError extends TypeError {
+  /**
+   * Stable identifier of the error.
+   */
+  static readonly code = 'ERR_OPTION_CONTRACT'
+
+  /**
+   * Stable identifier of the error.
+   */
+  readonly code = OptionContractError.code
+
+  /**
+   * @param message - Description of the broken contract.
+   */
+  constructor (message: string) {
+    super(message)
+    this.name = 'OptionContractError'
+  }
+}
+
+/**
+ * Class of error that can be passed to {@link Option.expect | `Option#expect`} together
+ * with its constructor arguments.
+ *
+ * @param A - Types of the arguments of the constructor.
+ */
+export type ErrorClass<A extends unknown[]> = new (...args: A) => Error
+
+/**
+ * Function that creates the error thrown by {@link Option.expect | `Option#expect`}. It receives
+ * the cause recorded in the None, if any.
+ */
+export type ErrorFactory = (cause?: Error) => Error
+
+/**
+ * Ways to describe the error thrown by {@link Option.expect | `Option#expect`}:
+ *
+ * - An error instance, thrown as is.
+ * - A message, used to create an {@link UnwrapNoneError | `UnwrapNoneError`}.
+ * - A function that creates the error.
+ */
+export type ErrorSource = Error | string | ErrorFactory
+
+const isErrorClass = (fn: unknown): fn is ErrorClass<unknown[]> =>
+  fn === Error || (typeof fn === 'function' && fn.prototype instanceof Error)
+
+const withCause = (options: ErrorOptions | undefined, cause: Error | undefined): ErrorOptions | undefined =>
+  cause === undefined || options?.cause !== undefined ? options : { ...options, cause }
+
+/**
+ * Creates the error described by the arguments of {@link Option.expect | `Option#expect`}.
+ * Only called when the error is actually going to be thrown. The cause recorded in the None
+ * is used by messages that do not have their own cause, and it's passed to factories.
+ *
+ * @hidden
+ */
+export function buildError (source: ErrorSource | ErrorClass<unknown[]>, args: unknown[], cause?: Error): Error {
+  if (source instanceof Error) {
+    return source
+  }
+  if (typeof source === 'string') {
+    return new UnwrapNoneError(source, withCause(args[0] as ErrorOptions | undefined, cause))
+  }
+  if (isErrorClass(source)) {
+    return new source(...args)
+  }
+  return source(cause)
+}
@@ -0,0 +1,301 @@
+import {Option} from "./option.js"
+import {Result} from "./result.js"
+import {Semigroup} from "./semigroup.js"
+import {buildError, ErrorClass, ErrorFactory, ErrorSource} from "./errors.js"
+import {
+  AreEqual,
+  FlattenOption,
+  GenerateOption,
+  Generator,
+  None,
+  OptionMatcher,
+  Predicate,
+  Some,
+  Transformation,
+  TransformToOption,
+  ZipTransformation
+} from "./types.js"
+
+export {pipe, flow} from "./pipe.js"
+
+/**
+ * Standalone version of {@link Option.Some | `Option.Some`}.
+ *
+ * @example
+ * ```ts
+ * [1, 2].map(some) // [Some(1), Some(2)]
+ * ```
+ */
+export function some<T> (value: T): Option<T> {
+  return Option.Some(value)
+}
+
+/**
+ * Standalone version of {@link Option.None | `Option.None`}.
+ */
+export function none<T> (): Option<T> {
+  return Option.None()
+}
+
+/**
+ * Standalone version of {@link Option.fromNullable | `Option.fromNullable`}.
+ *
+ * @example
+ * ```ts
+ * [1, null].map(fromNullable) // [Some(1), None]
+ * ```
+ */
+export function fromNullable<T> (value: T | null | undefined): Option<T> {
+  return Option.fromNullable(value)
+}
+
+/**
+ * Standalone version of {@link Option.isSome | `Option#isSome`}.
+ *
+ * @example
+ * ```ts
+ * [Option.Some(1), Option.None()].filter(isSome) // [Some(1)]
+ * ```
+ */
+export function isSome<T> (opt: Option<T>): opt is Some<T> {
+  return opt.isSome()
+}
+
+/**
+ * Standalone version of {@link Option.isNone | `Option#isNone`}.
+ */
+export function isNone<T> (opt: Option<T>): opt is None<T> {
+  return opt.isNone()
+}
+
+/**
+ * Curried version of {@link Option.isSomeAnd | `Option#isSomeAnd`}.
+ */
+export function isSomeAnd<T> (fn: Predicate<T>): (opt: Option<T>) => boolean {
+  return opt => opt.isSomeAnd(fn)
+}
+
+/**
+ * Curried version of {@link Option.map | `Option#map`}.
+ *
+ * @example
+ * ```ts
+ * [Option.Some(1), Option.None()].map(map(n => n * 2)) // [Some(2), None]
+ * ```
+ */
+export function map<T, U> (fn: Transformation<T, U>): (opt: Option<T>) => Option<U> {
+  return opt => opt.map(fn)
+}
+
+/**
+ * Curried version of {@link Option.mapOr | `Option#mapOr`}.
+ */
+export function mapOr<T, U> (defaultValue: U, fn: Transformation<T, U>): (opt: Option<T>) => U {
+  return opt => opt.mapOr(defaultValue, fn)
+}
+
+/**
+ * Curried version of {@link Option.mapOrElse | `Option#mapOrElse`}.
+ */
+export function mapOrElse<T, U> (defFn: Generator<U>, fn: Transformation<T, U>): (opt: Option<T>) => U {
+  return opt => opt.mapOrElse(defFn, fn)
+}
+
+/**
+ * Curried version of {@link Option.filter | `Option#filter`}.
+ *
+ * @example
+ * ```ts
+ * pipe(Option.Some(3), filter(n => n > 5)) // None
+ * ```
+ */
+export function filter<T, S extends T> (fn: (t: T) => t is S): (opt: Option<T>) => Option<S>
+export function filter<T> (fn: Predicate<T>): (opt: Option<T>) => Option<T>
+export function filter<T> (fn: Predicate<T>): (opt: Option<T>) => Option<T> {
+  return opt => opt.filter(fn)
+}
+
+/**
+ * Curried version of {@link Option.andThen | `Option#andThen`}.
+ */
+export function andThen<T, U> (fn: TransformToOption<T, U>): (opt: Option<T>) => Option<U> {
+  return opt => opt.andThen(fn)
+}
+
+/**
+ * Curried version of {@link Option.orElse | `Option#orElse`}.
+ */
+export function orElse<T> (fn: GenerateOption<T>): (opt: Option<T>) => Option<T> {
+  return opt => opt.orElse(fn)
+}
+
+/**
+ * Curried version of {@link Option.and | `Option#and`}.
+ */
+export function and<T, V> (another: Option<V>): (opt: Option<T>) => Option<V> {
+  return opt => opt.and(another)
+}
+
+/**
+ * Curried version of {@link Option.or | `Option#or`}.
+ */
+export function or<T> (another: Option<T>): (opt: Option<T>) => Option<T> {
+  return opt => opt.or(another)
+}
+
+/**
+ * Curried version of {@link Option.xor | `Option#xor`}.
+ */
+export function xor<T> (another: Option<T>): (opt: Option<T>) => Option<T> {
+  return opt => opt.xor(another)
+}
+
+/**
+ * Curried version of {@link Option.zip | `Option#zip`}.
+ */
+export function zip<T, U> (another: Option<U>): (opt: Option<T>) => Option<[T, U]> {
+  return opt => opt.zip(another)
+}
+
+/**
+ * Curried version of {@link Option.zipWith | `Option#zipWith`}.
+ */
+export function zipWith<T, U, V> (another: Option<U>, fn: ZipTransformation<T, U, V>): (opt: Option<T>) => Option<V> {
+  return opt => opt.zipWith(another, fn)
+}
+
+/**
+ * Curried version of {@link Option.combine | `Option#combine`}.
+ */
+export function combine<T> (another: Option<T>, fn: Semigroup<T>): (opt: Option<T>) => Option<T> {
+  return opt => opt.combine(another, fn)
+}
+
+/**
+ * Standalone version of {@link Option.flatten | `Option#flatten`}.
+ */
+export function flatten<T> (opt: Option<T>): Option<FlattenOption<T>> {
+  return opt.flatten()
+}
+
+/**
+ * Curried version of {@link Option.ifSome | `Option#ifSome`}.
+ */
+export function ifSome<T> (fn: (t: T) => void): (opt: Option<T>) => Option<T> {
+  return opt => opt.ifSome(fn)
+}
+
+/**
+ * Curried version of {@link Option.ifNone | `Option#ifNone`}.
+ */
+export function ifNone<T> (fn: () => void): (opt: Option<T>) => Option<T> {
+  return opt => opt.ifNone(fn)
+}
+
+/**
+ * Standalone version of {@link Option.unwrap | `Option#unwrap`}.
+ *
+ * @throws If the option is None.
+ */
+export function unwrap<T> (opt: Option<T>): T {
+  return opt.unwrap()
+}
+
+/**
+ * Curried version of {@link Option.unwrapOr | `Option#unwrapOr`}.
+ *
+ * @example
+ * ```ts
+ * [Option.Some(1), Option.None()].map(unwrapOr(0)) // [1, 0]
+ * ```
+ */
+export function unwrapOr<T> (defaultValue: T): (opt: Option<T>) => T {
+  return opt => opt.unwrapOr(defaultValue)
+}
+
+/**
+ * Curried version of {@link Option.unwrapOrElse | `Option#unwrapOrElse`}.
+ */
+export function unwrapOrElse<T> (fn: Generator<T>): (opt: Option<T>) => T {
+  return opt => opt.unwrapOrElse(fn)
+}
+
+/**
+ * Curried version of {@link Option.expect | `Option#expect`}.
+ *
+ * @throws The described error if the option is None.
+ */
+export function expect<T> (source: Error | ErrorFactory): (opt: Option<T>) => T
+export function expect<T> (message: string, options?: ErrorOptions): (opt: Option<T>) => T
+export function expect<T, A extends unknown[]> (errorClass: ErrorClass<A>, ...args: A): (opt: Option<T>) => T
+export function expect<T> (source: ErrorSource | ErrorClass<unknown[]>, ...args: unknown[]): (opt: Option<T>) => T {
+  return opt => opt.expect(cause => buildError(source, args, cause))
+}
+
+/**
+ * Curried version of {@link Option.match | `Option#match`}.
+ */
+export function match<T, R> (matcher: OptionMatcher<T, R>): (opt: Option<T>) => R {
+  return opt => opt.match(matcher)
+}
+
+/**
+ * Curried version of {@link Option.equalsWith | `Option#equalsWith`}. Uses `===` if no
+ * equality is provided.
+ */
+export function equals<T> (another: Option<T>, equality: AreEqual<T> = (a, b) => a === b): (opt: Option<T>) => boolean {
+  return opt => opt.equalsWith(another, equality)
+}
+
+/**
+ * Standalone version of {@link Option.toArray | `Option#toArray`}.
+ */
+export function toArray<T> (opt: Option<T>): T[] {
+  return opt.toArray()
+}
+
+/**
+ * Curried version of {@link Option.okOr | `Option#okOr`}.
+ */
+export function okOr<T, E> (err: E): (opt: Option<T>) => Result<T, E> {
+  return opt => opt.okOr(err)
+}
+
+/**
+ * Curried version of {@link Option.okOrElse | `Option#okOrElse`}.
+ */
+export function okOrElse<T, E> (fn: Generator<E>): (opt: Option<T>) => Result<T, E> {
+  return opt => opt.okOrElse(fn)
+}
+
+/**
+ * Kleisli composition: composes functions that return options from left to right. Each
+ * function receives the content of the option returned by the previous one, and the
+ * chain stops at the first None. Types are inferred for up to 10 functions.
+ *
+ * @param ab - First function.
+ * @param fns - Rest of the functions.
+ * @returns A function that chains all the functions with {@link Option.andThen | `andThen`}.
+ *
+ * @example
+ * ```ts
+ * const parse = (s: string) => Option.Some(Number(s)).filter(n => !isNaN(n))
+ * const positive = (n: number) => Option.Some(n).filter(n => n > 0)
+ * const parsePositive = composeK(parse, positive)
+ * parsePositive('10') // Some(10)
+ * parsePositive('-1') // None
+ * ```
+ */
+export function composeK<A, B> (ab: TransformToOption<A, B>): TransformToOption<A, B>
+export function composeK<A, B, C> (ab: TransformToOption<A, B>, bc: TransformToOption<B, C>): TransformToOption<A, C>
+export function composeK<A, B, C, D> (ab: TransformToOption<A, B>, bc: TransformToOption<B, C>, cd: TransformToOption<C, D>): TransformToOption<A, D>
+export function composeK<A, B, C, D, E> (ab: TransformToOption<A, B>, bc: TransformToOption<B, C>, cd: TransformToOption<C, D>, de: TransformToOption<D, E>): TransformToOption<A, E>
+export function composeK<A, B, C, D, E, F> (ab: TransformToOption<A, B>, bc: TransformToOption<B, C>, cd: TransformToOption<C, D>, de: TransformToOption<D, E>, ef: TransformToOption<E, F>): TransformToOption<A, F>
+export function composeK<A, B, C, D, E, F, G> (ab: TransformToOption<A, B>, bc: TransformToOption<B, C>, cd: TransformToOption<C, D>, de: TransformToOption<D, E>, ef: TransformToOption<E, F>, fg: TransformToOption<F, G>): TransformToOption<A, G>
+export function composeK<A, B, C, D, E, F, G, H> (ab: TransformToOption<A, B>, bc: TransformToOption<B, C>, cd: TransformToOption<C, D>, de: TransformToOption<D, E>, ef: TransformToOption<E, F>, fg: TransformToOption<F, G>, gh: TransformToOption<G, H>): TransformToOption<A, H>
+export function composeK<A, B, C, D, E, F, G, H, I> (ab: TransformToOption<A, B>, bc: TransformToOption<B, C>, cd: TransformToOption<C, D>, de: TransformToOption<D, E>, ef: TransformToOption<E, F>, fg: TransformToOption<F, G>, gh: TransformToOption<G, H>, hi: TransformToOption<H, I>): TransformToOption<A, I>
+export function composeK<A, B, C, D, E, F, G, H, I, J> (ab: TransformToOption<A, B>, bc: TransformToOption<B, C>, cd: TransformToOption<C, D>, de: TransformToOption<D, E>, ef: TransformToOption<E, F>, fg: TransformToOption<F, G>, gh: TransformToOption<G, H>, hi: TransformToOption<H, I>, ij: TransformToOption<I, J>): TransformToOption<A, J>
+export function composeK<A, B, C, D, E, F, G, H, I, J, K> (ab: TransformToOption<A, B>, bc: TransformToOption<B, C>, cd: TransformToOption<C, D>, de: TransformToOption<D, E>, ef: TransformToOption<E, F>, fg: TransformToOption<F, G>, gh: TransformToOption<G, H>, hi: TransformToOption<H, I>, ij: TransformToOption<I, J>, jk: TransformToOption<J, K>): TransformToOption<A, K>
+export function composeK (ab: TransformToOption<unknown, unknown>, ...fns: TransformToOption<unknown, unknown>[]): TransformToOption<unknown, unknown> {
+  return a => fns.reduce((acc, fn) => acc.andThen(fn), ab(a))
+}
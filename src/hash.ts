@@ -0,0 +1,134 @@
+import {Option} from "./option.js"
+import {equalsSymbol, Equatable} from "./equality.js"
+
+/**
+ * Symbol used to implement the {@link Hashable | `Hashable`} protocol.
+ *
+ * It's registered with `Symbol.for`, so different copies of the library share the same symbol.
+ */
+export const hashSymbol: unique symbol = Symbol.for('nochoices.hash')
+
+/**
+ * Protocol for values that can calculate their own hash code. Hash codes are used by
+ * {@link OptionKeyedMap | `OptionKeyedMap`} and {@link OptionKeyedSet | `OptionKeyedSet`}
+ * to find entries.
+ *
+ * Values that are equal must return the same hash code. A class implementing
+ * {@link Equatable | `Equatable`} should implement this protocol too, using the same fields.
+ *
+ * @example
+ * ```ts
+ * class Point implements Equatable, Hashable {
+ *   constructor (readonly x: number, readonly y: number) {}
+ *
+ *   [equalsSymbol] (other: unknown): boolean {
+ *     return other instanceof Point && this.x === other.x && this.y === other.y
+ *   }
+ *
+ *   [hashSymbol] (): number {
+ *     return combineHashes(hashValue(this.x), hashValue(this.y))
+ *   }
+ * }
+ * ```
+ */
+export interface Hashable {
+  [hashSymbol] (): number
+}
+
+const identities = new WeakMap<object, number>()
+let nextIdentity = 1
+
+const isHashable = (value: object): value is Hashable =>
+  typeof (value as Partial<Hashable>)[hashSymbol] === 'function'
+
+const hashString = (str: string): number => {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < str.length; i++) {
+    hash = Math.imul(hash ^ str.charCodeAt(i), 0x01000193)
+  }
+  return hash | 0
+}
+
+const hashIdentity = (value: object): number => {
+  const existing = identities.get(value)
+  if (existing !== undefined) {
+    return existing
+  }
+  const identity = hashString(`#${nextIdentity++}`)
+  identities.set(value, identity)
+  return identity
+}
+
+/**
+ * Combines many hash codes into one. The order of the hash codes matters.
+ *
+ * @param hashes - Hash codes to combine.
+ * @returns A new hash code.
+ *
+ * @example
+ * ```ts
+ * combineHashes(hashValue('a'), hashValue(1))
+ * ```
+ */
+export function combineHashes (...hashes: number[]): number {
+  return hashes.reduce((acc, hash) => (Math.imul(acc, 31) + hash) | 0, 17)
+}
+
+/**
+ * Calculates the hash code of any value, consistent with `===` equality.
+ *
+ * - Primitives are hashed by content.
+ * - Values implementing {@link Hashable | `Hashable`} (like options) use their own method.
+ * - Any other object is hashed by identity.
+ *
+ * @param value - Value to hash.
+ * @returns A 32 bits integer.
+ *
+ * @example
+ * ```ts
+ * hashValue('foo') === hashValue('foo') // true
+ * hashValue(Option.Some(1)) === hashValue(Option.Some(1)) // true
+ * hashValue({}) === hashValue({}) // false
+ * ```
+ */
+export function hashValue (value: unknown): number {
+  switch (typeof value) {
+    case 'undefined':
+      return 0
+    case 'boolean':
+      return value ? 1231 : 1237
+    case 'number':
+      return Number.isInteger(value) && Math.abs(value) <= 0x7fffffff ? value | 0 : hashString(String(value))
+    case 'string':
+      return hashString(value)
+    case 'bigint':
+      return hashString(`${value}n`)
+    case 'symbol':
+      return hashString(String(value.description))
+    case 'function':
+      return hashIdentity(value)
+    case 'object':
+      if (value === null) {
+        return 1
+      }
+      return isHashable(value) ? value[hashSymbol]() : hashIdentity(value)
+  }
+}
+
+/**
+ * Equality used by default for the keys of the option keyed collections. Compatible
+ * with {@link hashValue | `hashValue`}: options are compared by content, recursively,
+ * values implementing {@link Equatable | `Equatable`} use their own method, and any other
+ * value is compared with `===`.
+ *
+ * @hidden
+ */
+export function sameKey (a: unknown, b: unknown): boolean {
+  if (Option.isOption(a) && Option.isOption(b)) {
+    return Option.adopt(a).equalsWith(Option.adopt(b), sameKey)
+  }
+  if (typeof a === 'object' && a !== null && typeof (a as Partial<Equatable>)[equalsSymbol] === 'function') {
+    return (a as Equatable)[equalsSymbol](b)
+  }
+  return a === b || (Number.isNaN(a) && Number.isNaN(b))
+}
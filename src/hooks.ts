@@ -0,0 +1,278 @@
+import {Option} from "./option.js"
+import {UnwrapNoneError} from "./errors.js"
+import {Unsubscribe} from "./types.js"
+
+/**
+ * Operations reported to {@link HookRegistry.onOperation | `onOperation`} handlers.
+ */
+export type TracedOperation = 'map' | 'filter' | 'andThen'
+
+/**
+ * Describes one step of a chain of options.
+ */
+export interface OperationEvent {
+  /**
+   * Name of the method that was called.
+   */
+  readonly operation: TracedOperation
+  /**
+   * Option over which the method was called.
+   */
+  readonly input: Option<unknown>
+  /**
+   * Option returned by the method.
+   */
+  readonly output: Option<unknown>
+}
+
+/**
+ * Called every time {@link Option.unwrap | `unwrap`} is called over None, before the error
+ * is thrown. Throwing inside the handler replaces the original error.
+ */
+export type UnwrapNoneHandler = (error: UnwrapNoneError) => void
+
+/**
+ * Called every time {@link Option.expect | `expect`} is called over None, before the error
+ * is thrown. Throwing inside the handler replaces the original error.
+ */
+export type ExpectFailHandler = (error: Error) => void
+
+/**
+ * Called after every traced operation.
+ */
+export type OperationHandler = (event: OperationEvent) => void
+
+/**
+ * Set of handlers installed together with {@link HookRegistry.scoped | `scoped`}.
+ */
+export interface Hooks {
+  readonly onUnwrapNone?: UnwrapNoneHandler
+  readonly onExpectFail?: ExpectFailHandler
+  readonly onOperation?: OperationHandler
+}
+
+/**
+ * Storage used to keep the scoped hooks. It has the same shape as node's `AsyncLocalStorage`,
+ * so an instance of it can be used to keep the scoped hooks through async calls.
+ *
+ * @param S - The type of the stored value
+ */
+export interface HookContext<S> {
+  getStore (): S | undefined
+  run<R> (store: S, fn: () => R): R
+}
+
+/**
+ * Default context. It only keeps the scoped hooks during synchronous execution.
+ */
+class SyncContext<S> implements HookContext<S> {
+  private store: S | undefined = undefined
+
+  getStore (): S | undefined {
+    return this.store
+  }
+
+  run<R> (store: S, fn: () => R): R {
+    const previous = this.store
+    this.store = store
+    try {
+      return fn()
+    } finally {
+      this.store = previous
+    }
+  }
+}
+
+/**
+ * Registry of instrumentation hooks, available as {@link Option.hooks | `Option.hooks`}.
+ *
+ * Handlers can be registered globally, with {@link HookRegistry.onUnwrapNone | `onUnwrapNone`},
+ * {@link HookRegistry.onExpectFail | `onExpectFail`} and {@link HookRegistry.onOperation | `onOperation`},
+ * or only while a function runs, with {@link HookRegistry.scoped | `scoped`}. Scoped hooks are kept
+ * in a {@link HookContext | `HookContext`}. The default one only covers synchronous code, but
+ * an `AsyncLocalStorage` can be set with {@link HookRegistry.useContext | `useContext`} to keep them
+ * through async calls.
+ *
+ * When there are no handlers the cost of every hook is a couple of checks. Handlers are not
+ * called for the options used inside another handler, so a handler can use options freely.
+ *
+ * @example
+ * ```ts
+ * let failures = 0
+ * const unsubscribe = Option.hooks.onUnwrapNone(() => failures++)
+ *
+ * Option.hooks.scoped({ onOperation: e => console.log(e.operation) }, () => {
+ *   Option.Some(1).map(n => n + 1) // logs 'map'
+ * })
+ * ```
+ */
+export class HookRegistry {
+  /**
+   * @hidden
+   * @private
+   */
+  private readonly global: Set<Hooks> = new Set()
+
+  /**
+   * @hidden
+   * @private
+   */
+  private context: HookContext<Hooks[]> = new SyncContext()
+
+  /**
+   * @hidden
+   * @private
+   */
+  private dispatching = false
+
+  /**
+   * Registers a handler called every time `unwrap` fails.
+   *
+   * @param handler - Function called with the error before it's thrown.
+   * @returns A function that removes the handler.
+   *
+   * @example
+   * ```ts
+   * Option.hooks.onUnwrapNone(error => metrics.increment('unwrap_none'))
+   * ```
+   */
+  onUnwrapNone (handler: UnwrapNoneHandler): Unsubscribe {
+    return this.register({ onUnwrapNone: handler })
+  }
+
+  /**
+   * Registers a handler called every time `expect` fails.
+   *
+   * @param handler - Function called with the error before it's thrown.
+   * @returns A function that removes the handler.
+   *
+   * @example
+   * ```ts
+   * Option.hooks.onExpectFail(error => logger.warn(error.message))
+   * ```
+   */
+  onExpectFail (handler: ExpectFailHandler): Unsubscribe {
+    return this.register({ onExpectFail: handler })
+  }
+
+  /**
+   * Registers a handler called after every `map`, `filter` and `andThen`. Other methods, like
+   * `mapOr` or `match`, do not report the operations they use internally.
+   *
+   * @param handler - Function called with the input and the output of the operation.
+   * @returns A function that removes the handler.
+   *
+   * @example
+   * ```ts
+   * Option.hooks.onOperation(({ operation, input, output }) => tracer.record(operation, input, output))
+   * ```
+   */
+  onOperation (handler: OperationHandler): Unsubscribe {
+    return this.register({ onOperation: handler })
+  }
+
+  /**
+   * Runs the function with the given hooks installed. The hooks are removed when the function
+   * finishes, so they do not leak to other code. Scopes can be nested, and global handlers are
+   * still called inside of them.
+   *
+   * With the default context the hooks are only active during the synchronous part of the
+   * function. Use {@link HookRegistry.useContext | `useContext`} to keep them through async calls.
+   *
+   * @param hooks - Handlers to install.
+   * @param fn - Function to run.
+   * @typeParam R - Type returned by the function.
+   * @returns The result of the function.
+   *
+   * @example
+   * ```ts
+   * const failures: Error[] = []
+   * Option.hooks.scoped({ onExpectFail: e => failures.push(e) }, () => {
+   *   Option.None().expect('missing')
+   * })
+   * ```
+   */
+  scoped<R> (hooks: Hooks, fn: () => R): R {
+    const outer = this.context.getStore() ?? []
+    return this.context.run([...outer, hooks], fn)
+  }
+
+  /**
+   * Replaces the storage used to keep the scoped hooks.
+   *
+   * @param context - New storage, like an instance of `AsyncLocalStorage`. By default the
+   * original synchronous storage is restored.
+   *
+   * @example
+   * ```ts
+   * import {AsyncLocalStorage} from 'node:async_hooks'
+   * Option.hooks.useContext(new AsyncLocalStorage())
+   * ```
+   */
+  useContext (context: HookContext<Hooks[]> = new SyncContext()): void {
+    this.context = context
+  }
+
+  /**
+   * Removes every global handler.
+   */
+  clear (): void {
+    this.global.clear()
+  }
+
+  /**
+   * @hidden
+   */
+  unwrapNone (error: UnwrapNoneError): void {
+    this.each(hooks => hooks.onUnwrapNone?.(error))
+  }
+
+  /**
+   * @hidden
+   */
+  expectFail (error: Error): void {
+    this.each(hooks => hooks.onExpectFail?.(error))
+  }
+
+  /**
+   * @hidden
+   */
+  operation (operation: TracedOperation, input: Option<unknown>, output: Option<unknown>): void {
+    this.each(hooks => hooks.onOperation?.({ operation, input, output }))
+  }
+
+  /**
+   * @hidden
+   * @private
+   */
+  private register (hooks: Hooks): Unsubscribe {
+    this.global.add(hooks)
+    return () => {
+      this.global.delete(hooks)
+    }
+  }
+
+  /**
+   * @hidden
+   * @private
+   */
+  private each (fn: (hooks: Hooks) => void): void {
+    const scoped = this.context.getStore()
+    if (this.dispatching || (this.global.size === 0 && scoped === undefined)) {
+      return
+    }
+    this.dispatching = true
+    try {
+      for (const hooks of [...this.global, ...scoped ?? []]) {
+        fn(hooks)
+      }
+    } finally {
+      this.dispatching = false
+    }
+  }
+}
+
+/**
+ * @hidden
+ */
+export const hooks = new HookRegistry()
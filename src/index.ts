@@ -1,4 +1,34 @@
-export * from './option.js'
+export {Option, optionSymbol} from './option.js'
+export * from './result.js'
+export * from './async-option.js'
+export * from './lazy-option.js'
+export * from './once-cell.js'
+export * from './option-cell.js'
 export * from './flatten.js'
 export * from './unzip.js'
+export * from './transpose.js'
+export * from './assert.js'
+export {OptionContractError, UnwrapNoneError} from './errors.js'
+export type {ErrorClass, ErrorFactory, ErrorSource} from './errors.js'
+export type {NoneOptions, Provenance} from './provenance.js'
+export type {NullishPolicy, OptionConfig} from './contracts.js'
+export {HookRegistry} from './hooks.js'
+export type {Hooks, HookContext, OperationEvent, TracedOperation, UnwrapNoneHandler, ExpectFailHandler, OperationHandler} from './hooks.js'
+export * from './equality.js'
+export {hashSymbol, hashValue, combineHashes} from './hash.js'
+export type {Hashable} from './hash.js'
+export * from './option-keyed.js'
+export {naturalOrder, sortByOption} from './compare.js'
+export type {NoneOrdering} from './compare.js'
+export * as semigroups from './semigroup.js'
+export type {Semigroup, Monoid} from './semigroup.js'
+export * as aggregate from './aggregate.js'
+export * as fp from './fp.js'
+export {nullableCodec, taggedCodec, serdeCodec} from './json.js'
+export type {OptionCodec, OptionEncoding} from './json.js'
+export * as decoders from './decoder.js'
+export * as iter from './iter.js'
+export {Peekable} from './iter.js'
+export type {GenBind, GenStep, AsyncGenBind, AsyncGenStep} from './option-iterator.js'
+export type {Decoder, DecoderType, DecodeFailure, DecodeContext, PathSegment} from './decoder.js'
 export * from "./types.js";
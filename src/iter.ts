@@ -0,0 +1,199 @@
+import {Option, someUnchecked} from "./option.js"
+import {TransformToOption} from "./types.js";
+
+/**
+ * Lazily transforms each element with a function that returns an option, keeping only
+ * the values of the results that are Some.
+ *
+ * @param iterable - Elements to transform.
+ * @param fn - Transformation applied to each element.
+ * @typeParam A - Type of the elements.
+ * @typeParam B - Type of the transformed values.
+ * @returns An iterator with the values of the Somes.
+ *
+ * @example
+ * ```ts
+ * const parse = (s: string) => Option.Some(Number(s)).filter(n => !isNaN(n))
+ * [...filterMap(['1', 'foo', '3'], parse)] // [1, 3]
+ * ```
+ */
+export function* filterMap<A, B> (iterable: Iterable<A>, fn: TransformToOption<A, B>): IterableIterator<B> {
+  for (const elem of iterable) {
+    for (const value of fn(elem)) {
+      yield value
+    }
+  }
+}
+
+/**
+ * Lazily iterates over the values of the options that are Some, skipping the Nones.
+ *
+ * @param iterable - Options to flatten.
+ * @typeParam T - Type of the values contained in the options.
+ * @returns An iterator with the values of the Somes.
+ *
+ * @example
+ * ```ts
+ * [...flatten([Option.Some(1), Option.None(), Option.Some(3)])] // [1, 3]
+ * ```
+ */
+export function* flatten<T> (iterable: Iterable<Option<T>>): IterableIterator<T> {
+  for (const opt of iterable) {
+    for (const value of opt) {
+      yield value
+    }
+  }
+}
+
+/**
+ * Lazily iterates over the values of the options until the first None.
+ *
+ * @param iterable - Options to iterate.
+ * @typeParam T - Type of the values contained in the options.
+ * @returns An iterator with the values before the first None.
+ *
+ * @example
+ * ```ts
+ * [...takeWhileSome([Option.Some(1), Option.Some(2), Option.None(), Option.Some(4)])] // [1, 2]
+ * ```
+ */
+export function* takeWhileSome<T> (iterable: Iterable<Option<T>>): IterableIterator<T> {
+  for (const opt of iterable) {
+    if (opt.isNone()) {
+      return
+    }
+    yield opt.unwrap()
+  }
+}
+
+/**
+ * Lazily accumulates the elements into a state, producing each intermediate state.
+ * The iteration stops as soon as the function returns None.
+ *
+ * @param iterable - Elements to accumulate.
+ * @param initial - Initial state.
+ * @param fn - Function that receives the current state and an element and returns the next state.
+ * @typeParam A - Type of the elements.
+ * @typeParam S - Type of the state.
+ * @returns An iterator with each intermediate state.
+ *
+ * @example
+ * ```ts
+ * // Running sum that stops when it goes over 5
+ * [...scan([1, 2, 3, 4], 0, (acc, n) => Option.Some(acc + n).filter(s => s <= 5))] // [1, 3]
+ * ```
+ */
+export function* scan<A, S> (iterable: Iterable<A>, initial: S, fn: (state: S, elem: A) => Option<S>): IterableIterator<S> {
+  let state = initial
+  for (const elem of iterable) {
+    const next = fn(state, elem)
+    if (next.isNone()) {
+      return
+    }
+    state = next.unwrap()
+    yield state
+  }
+}
+
+/**
+ * Lazily generates values from a seed. The function receives the current seed and returns
+ * the next value together with the next seed. The generation stops when the function
+ * returns None.
+ *
+ * @param seed - Initial seed.
+ * @param fn - Function that generates a value and the next seed.
+ * @typeParam S - Type of the seed.
+ * @typeParam T - Type of the generated values.
+ * @returns An iterator with the generated values.
+ *
+ * @example
+ * ```ts
+ * [...unfold(1, n => Option.Some<[number, number]>([n, n * 2]).filter(() => n < 10))] // [1, 2, 4, 8]
+ * ```
+ */
+export function* unfold<S, T> (seed: S, fn: (seed: S) => Option<[T, S]>): IterableIterator<T> {
+  let current = fn(seed)
+  while (current.isSome()) {
+    const [value, next] = current.get()
+    yield value
+    current = fn(next)
+  }
+}
+
+/**
+ * Iterator wrapper that allows to look at the next element without consuming it.
+ * Both {@link Peekable.peek | `peek`} and {@link Peekable.next | `next`} return options
+ * instead of `IteratorResult`, being None when the iterator is exhausted.
+ *
+ * @param T - Type of the elements.
+ *
+ * @example
+ * ```ts
+ * const it = new Peekable([1, 2])
+ * it.peek() // Some(1)
+ * it.next() // Some(1)
+ * it.next() // Some(2)
+ * it.peek() // None
+ * ```
+ */
+export class Peekable<T> {
+  /**
+   * @hidden
+   * @private
+   */
+  private readonly iterator: Iterator<T>
+
+  /**
+   * @hidden
+   * @private
+   */
+  private readonly peeked: Option<Option<T>>
+
+  /**
+   * @param iterable - Elements to iterate.
+   */
+  constructor (iterable: Iterable<T>) {
+    this.iterator = iterable[Symbol.iterator]()
+    this.peeked = Option.None()
+  }
+
+  /**
+   * Returns the next element without consuming it. Calling it many times returns
+   * the same element.
+   *
+   * @returns A copy of the next element, or None if the iterator is exhausted. Modifying the
+   * copy does not modify the buffered element.
+   */
+  peek (): Option<T> {
+    return this.peeked.getOrInsertWith(() => this.advance()).cloned(value => value)
+  }
+
+  /**
+   * Consumes and returns the next element.
+   *
+   * @returns The next element, or None if the iterator is exhausted.
+   */
+  next (): Option<T> {
+    return this.peeked.take().unwrapOrElse(() => this.advance())
+  }
+
+  /**
+   * Allows to keep iterating the remaining elements with `for..of`.
+   *
+   * @returns An iterator over the remaining elements.
+   */
+  *[Symbol.iterator] (): Iterator<T> {
+    for (let elem = this.next(); elem.isSome(); elem = this.next()) {
+      yield elem.get()
+    }
+  }
+
+  /**
+   * @hidden
+   * @private
+   */
+  private advance (): Option<T> {
+    const res = this.iterator.next()
+    return res.done ? Option.None() : someUnchecked(res.value)
+  }
+}
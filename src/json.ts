@@ -0,0 +1,129 @@
+import {Option, someUnchecked} from "./option.js"
+
+/**
+ * Defines how options are represented in JSON.
+ *
+ * A codec encodes one level of option. When an option contains other options, those
+ * are encoded by `JSON.stringify` calling their `toJSON` method.
+ *
+ * @example
+ * ```ts
+ * // Encodes Some(v) as [v] and None as []
+ * const arrayCodec: OptionCodec = {
+ *   encode: opt => opt.toArray(),
+ *   isEncoded: json => Array.isArray(json) && json.length <= 1,
+ *   decode: json => Option.fromNullable((json as unknown[])[0])
+ * }
+ * ```
+ */
+export interface OptionCodec {
+  /**
+   * Transforms an option into a JSON compatible value.
+   */
+  encode (opt: Option<unknown>): unknown
+
+  /**
+   * Returns true if the given parsed value is an option encoded with this codec.
+   */
+  isEncoded (json: unknown): boolean
+
+  /**
+   * Transforms a parsed value back into an option.
+   */
+  decode (json: unknown): Option<unknown>
+}
+
+/**
+ * Names of the built-in codecs.
+ *
+ * - `nullable`: Some(v) is encoded as v, and None as `null`.
+ * - `tagged`: Some(v) is encoded as `{"$option": "some", "value": v}`, and None as `{"$option": "none"}`.
+ * - `serde`: Some(v) is encoded as `{"Some": v}`, and None as `"None"`.
+ */
+export type OptionEncoding = 'nullable' | 'tagged' | 'serde'
+
+const isRecord = (json: unknown): json is Record<string, unknown> =>
+  typeof json === 'object' && json !== null && !Array.isArray(json)
+
+/**
+ * Encodes Some(v) as v and None as `null`.
+ *
+ * This is the most common representation of optional values in JSON, but it's
+ * ambiguous: `Option<Option<T>>` cannot be decoded back with the same shape, and
+ * nulls inside the data cannot be told apart from options. Because of that the
+ * reviver of this codec does not transform any value.
+ */
+export const nullableCodec: OptionCodec = {
+  encode: opt => opt.mapOrElse<unknown>(() => null, v => v),
+  isEncoded: _json => false,
+  decode: json => Option.fromNullable(json)
+}
+
+/**
+ * Encodes Some(v) as `{"$option": "some", "value": v}` and None as `{"$option": "none"}`.
+ *
+ * This is the default codec. It's unambiguous even for nested options. `JSON.stringify` drops
+ * the `value` of `Some(undefined)`, so a some without `value` is decoded as `Some(undefined)`.
+ */
+export const taggedCodec: OptionCodec = {
+  encode: opt => opt.mapOrElse<unknown>(
+    () => ({ $option: 'none' }),
+    value => ({ $option: 'some', value })
+  ),
+  isEncoded: json => isRecord(json) && (
+    json.$option === 'some' || json.$option === 'none'
+  ),
+  decode: json => isRecord(json) && json.$option === 'some'
+    ? someUnchecked(json.value)
+    : Option.None()
+}
+
+/**
+ * Encodes Some(v) as `{"Some": v}` and None as `"None"`, following the externally
+ * tagged representation used by rust serde.
+ *
+ * Nested options are unambiguous, but plain `"None"` strings inside the data are
+ * decoded as None.
+ */
+export const serdeCodec: OptionCodec = {
+  encode: opt => opt.mapOrElse<unknown>(
+    () => 'None',
+    value => ({ Some: value })
+  ),
+  isEncoded: json => json === 'None' || (
+    isRecord(json) && Object.keys(json).length === 1 && 'Some' in json
+  ),
+  decode: json => isRecord(json)
+    ? someUnchecked(json.Some)
+    : Option.None()
+}
+
+const codecs: Record<OptionEncoding, OptionCodec> = {
+  nullable: nullableCodec,
+  tagged: taggedCodec,
+  serde: serdeCodec
+}
+
+let activeCodec: OptionCodec = taggedCodec
+
+export function resolveCodec (codec: OptionCodec | OptionEncoding): OptionCodec {
+  return typeof codec === 'string' ? codecs[codec] : codec
+}
+
+export function encodeOption (opt: Option<unknown>): unknown {
+  return activeCodec.encode(opt)
+}
+
+export function stringifyWith (value: unknown, codec: OptionCodec, space?: string | number): string {
+  const previous = activeCodec
+  activeCodec = codec
+  try {
+    return JSON.stringify(value, null, space)
+  } finally {
+    activeCodec = previous
+  }
+}
+
+export function reviverFor (codec: OptionCodec): (key: string, value: unknown) => unknown {
+  return (_key, value) => codec.isEncoded(value) ? codec.decode(value) : value
+}
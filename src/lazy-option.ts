@@ -0,0 +1,288 @@
+import {Option} from "./option.js"
+import {GenerateOption, Generator, Predicate, Transformation, TransformToOption} from "./types.js";
+
+type Step = (opt: Option<unknown>) => Option<unknown>
+
+/**
+ * Source of a LazyOption. It's shared by every LazyOption derived from the same one, so the
+ * function is executed at most once for all of them.
+ */
+class SharedSource {
+  private readonly fn: GenerateOption<unknown>
+  private readonly memo: Option<Option<unknown>> = Option.None()
+
+  constructor (fn: GenerateOption<unknown>) {
+    this.fn = fn
+  }
+
+  get (): Option<unknown> {
+    return this.memo.getOrInsertWith(this.fn).cloned(value => value)
+  }
+
+  invalidate (): void {
+    this.memo.take()
+  }
+}
+
+/**
+ * A LazyOption represents an optional value that is not computed until it's needed.
+ *
+ * Operations like {@link LazyOption.map | `map`}, {@link LazyOption.filter | `filter`} or
+ * {@link LazyOption.andThen | `andThen`} do not execute anything, they only record a step.
+ * When the value is requested with {@link LazyOption.force | `force`} or any of the unwrap
+ * methods, the source is executed and the recorded steps are applied in order over its result.
+ * The result is memoized, so the computation runs at most once until {@link LazyOption.invalidate | `invalidate`}
+ * is called.
+ *
+ * Each operation returns a new LazyOption, so the same source can be used to build many pipelines.
+ * The result of the source is memoized once and shared by all of them, and each instance
+ * memoizes the result of its own steps.
+ *
+ * @example
+ * ```ts
+ * const port = LazyOption.from(() => Option.fromNullable(process.env.PORT))
+ *   .map(Number)
+ *   .filter(n => Number.isInteger(n))
+ * // Nothing was executed yet
+ * port.unwrapOr(8080) // Executes the pipeline
+ * port.unwrapOr(8080) // Uses the memoized result
+ * ```
+ *
+ * @param T - The type of the object wrapped by the optional
+ */
+export class LazyOption<T> {
+  /**
+   * @hidden
+   * @private
+   */
+  private readonly source: SharedSource
+
+  /**
+   * @hidden
+   * @private
+   */
+  private readonly steps: Step[]
+
+  /**
+   * @hidden
+   * @private
+   */
+  private readonly result: Option<Option<T>>
+
+  /**
+   * @hidden
+   * @param source - Generates the initial option.
+   * @param steps - Operations applied over the initial option.
+   * @private
+   */
+  private constructor (source: SharedSource, steps: Step[]) {
+    this.source = source
+    this.steps = steps
+    this.result = Option.None()
+  }
+
+  /**
+   * Creates a LazyOption from a function that generates an option. The function is not
+   * called until the value is needed.
+   *
+   * @param fn - Function that generates the option.
+   * @typeParam T - Type of the value that the Option may contain.
+   * @returns A new LazyOption.
+   *
+   * @example
+   * ```ts
+   * const lazy = LazyOption.from(() => Option.fromNullable(expensiveLookup()))
+   * ```
+   */
+  static from<T> (fn: GenerateOption<T>): LazyOption<T> {
+    return new LazyOption(new SharedSource(fn), [])
+  }
+
+  /**
+   * Creates a LazyOption from an already available option.
+   *
+   * @param opt - Option to wrap.
+   * @typeParam T - Type of the value that the Option may contain.
+   * @returns A new LazyOption that resolves to the given option.
+   *
+   * @example
+   * ```ts
+   * LazyOption.fromOption(Option.Some(1)).map(n => n + 1).force() // Some(2)
+   * ```
+   */
+  static fromOption<T> (opt: Option<T>): LazyOption<T> {
+    return new LazyOption(new SharedSource(() => opt), [])
+  }
+
+  /**
+   * Records a transformation of the value. The function is only called when the
+   * LazyOption is forced and the value is present.
+   *
+   * @param fn - Mapping function.
+   * @typeParam U - The type of the value after the transformation.
+   * @returns A new LazyOption with the recorded step.
+   *
+   * @example
+   * ```ts
+   * LazyOption.fromOption(Option.Some(2)).map(n => n * 2).force() // Some(4)
+   * ```
+   */
+  map<U> (fn: Transformation<T, U>): LazyOption<U> {
+    return this.record(opt => opt.map(fn))
+  }
+
+  /**
+   * Records a filter over the value. The predicate is only called when the LazyOption
+   * is forced and the value is present.
+   *
+   * @param fn - Predicate.
+   * @returns A new LazyOption with the recorded step.
+   *
+   * @example
+   * ```ts
+   * LazyOption.fromOption(Option.Some(2)).filter(n => n > 5).force() // None
+   * ```
+   */
+  filter (fn: Predicate<T>): LazyOption<T> {
+    return this.record(opt => opt.filter(fn))
+  }
+
+  /**
+   * Records a function that generates the next option. The function is only called when
+   * the LazyOption is forced and the value is present.
+   *
+   * @param fn - Function that generates the next option.
+   * @typeParam U - The type contained in the option returned by the function.
+   * @returns A new LazyOption with the recorded step.
+   *
+   * @example
+   * ```ts
+   * LazyOption.fromOption(Option.Some('1')).andThen(parse).force() // Some(1)
+   * ```
+   */
+  andThen<U> (fn: TransformToOption<T, U>): LazyOption<U> {
+    return this.record(opt => opt.andThen(fn))
+  }
+
+  /**
+   * Records a function that generates an alternative option. The function is only
+   * called when the LazyOption is forced and the value is absent.
+   *
+   * @param fn - Function that generates the alternative option.
+   * @returns A new LazyOption with the recorded step.
+   *
+   * @example
+   * ```ts
+   * LazyOption.fromOption(Option.None()).orElse(() => Option.Some('default')).force() // Some('default')
+   * ```
+   */
+  orElse (fn: GenerateOption<T>): LazyOption<T> {
+    return this.record(opt => opt.orElse(fn))
+  }
+
+  /**
+   * Computes the option executing the source and applying the recorded steps in order.
+   * The result is memoized: calling it again does not execute anything until
+   * {@link LazyOption.invalidate | `invalidate`} is called.
+   *
+   * @returns A copy of the computed option. Modifying the copy does not modify the memoized result.
+   *
+   * @example
+   * ```ts
+   * const lazy = LazyOption.from(() => Option.Some(1)).map(n => n + 1)
+   * lazy.force() // Some(2)
+   * ```
+   */
+  force (): Option<T> {
+    const computed = this.result.getOrInsertWith(() =>
+      this.steps.reduce((opt, step) => step(opt), this.source.get()) as Option<T>)
+    // A copy is returned, so callers cannot modify the memoized result.
+    return computed.cloned(value => value)
+  }
+
+  /**
+   * Discards the memoized result and the memoized result of the source, so the next time the
+   * value is needed the whole pipeline is executed again. Other instances derived from the
+   * same source keep their memoized results until they are invalidated too.
+   *
+   * @returns The same instance.
+   *
+   * @example
+   * ```ts
+   * let calls = 0
+   * const lazy = LazyOption.from(() => Option.Some(++calls))
+   * lazy.force() // Some(1)
+   * lazy.force() // Some(1)
+   * lazy.invalidate().force() // Some(2)
+   * ```
+   */
+  invalidate (): this {
+    this.source.invalidate()
+    this.result.take()
+    return this
+  }
+
+  /**
+   * Forces the computation and returns true if the result is Some.
+   *
+   * @returns true if the computed option is Some.
+   */
+  isSome (): boolean {
+    return this.force().isSome()
+  }
+
+  /**
+   * Forces the computation and returns true if the result is None.
+   *
+   * @returns true if the computed option is None.
+   */
+  isNone (): boolean {
+    return this.force().isNone()
+  }
+
+  /**
+   * Forces the computation and returns the contained value.
+   *
+   * @throws If the computed option is None.
+   * @returns The contained value.
+   *
+   * @example
+   * ```ts
+   * LazyOption.fromOption(Option.Some(1)).unwrap() // 1
+   * LazyOption.fromOption(Option.None()).unwrap() // throws Error
+   * ```
+   */
+  unwrap (): T {
+    return this.force().unwrap()
+  }
+
+  /**
+   * Forces the computation and returns the contained value, or the default value if
+   * the result is None.
+   *
+   * @param defaultValue - Value returned if the computed option is None.
+   * @returns The contained value or the default one.
+   */
+  unwrapOr (defaultValue: T): T {
+    return this.force().unwrapOr(defaultValue)
+  }
+
+  /**
+   * Forces the computation and returns the contained value. If the result is None, the
+   * function is called to generate a default value.
+   *
+   * @param fn - Function to generate a default value.
+   * @returns The contained value or the default one.
+   */
+  unwrapOrElse (fn: Generator<T>): T {
+    return this.force().unwrapOrElse(fn)
+  }
+
+  /**
+   * @hidden
+   * @private
+   */
+  private record<U> (step: (opt: Option<T>) => Option<U>): LazyOption<U> {
+    return new LazyOption(this.source, [...this.steps, step as Step])
+  }
+}
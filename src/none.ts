@@ -1,9 +1,23 @@
 import {OptionalValue} from "./optional-value.js"
-import {Option} from "./option.js"
+import {Option, fromNone, someUnchecked} from "./option.js"
 import {Some} from "./some.js"
-import {AreEqual, FlattenOption} from "./types.js";
+import {Result} from "./result.js"
+import {UnwrapNoneError} from "./errors.js"
+import {Provenance} from "./provenance.js"
+import {hooks} from "./hooks.js"
+import {checkCallbackResult} from "./contracts.js"
+import {AreEqual, Comparator, FlattenOption, ReadonlyOption} from "./types.js";
 
 export class None<T> extends OptionalValue<T> {
+  private readonly origin?: Provenance
+  private readonly cause?: Error
+
+  constructor (origin?: Provenance, cause?: Error) {
+    super()
+    this.origin = origin
+    this.cause = cause
+  }
+
   isPresent (): boolean {
     return false
   }
@@ -13,19 +27,23 @@ export class None<T> extends OptionalValue<T> {
   }
 
   unwrap (): T {
-    throw new Error('unwrap over None.')
+    const error = new UnwrapNoneError(undefined, { provenance: this.origin, cause: this.cause })
+    hooks.unwrapNone(error)
+    throw error
   }
 
   map<M> (_fn: (a: T) => M): Option<M> {
-    return Option.None()
+    return this.propagate()
   }
 
-  filter (_fn: (a: T) => boolean): Option<T> {
-    return Option.None()
+  filter (_fn: (a: T) => boolean, _reason?: string): Option<T> {
+    return this.propagate()
   }
 
-  expect (err: Error): T {
-    throw err
+  expect (errFn: (cause?: Error) => Error): T {
+    const error = errFn(this.cause)
+    hooks.expectFail(error)
+    throw error
   }
 
   unwrapOr (defaultValue: T): T {
@@ -37,22 +55,22 @@ export class None<T> extends OptionalValue<T> {
   }
 
   flatten (): Option<FlattenOption<T>> {
-    return Option.None()
+    return this.propagate()
   }
 
   zip<U> (_another: OptionalValue<U>): Option<[T, U]> {
-    return Option.None()
+    return this.propagate()
   }
 
   zipWithSome<U> (_some: Some<U>): Option<[U, T]> {
-    return Option.None()
+    return this.propagate()
   }
 
   and<V>(_another: Option<V>): Option<V> {
-    return Option.None()
+    return this.propagate()
   }
 
-  or(_self: Option<T>, another: Option<T>): Option<T> {
+  or(_self: ReadonlyOption<T>, another: ReadonlyOption<T>): ReadonlyOption<T> {
     return another
   }
 
@@ -65,15 +83,17 @@ export class None<T> extends OptionalValue<T> {
   }
 
   xorWithSome (some: Some<T>): Option<T> {
-    return Option.Some(some.unwrap())
+    return someUnchecked(some.unwrap())
   }
 
   andThen<U> (_fn: (t: T) => Option<U>): Option<U> {
-    return Option.None()
+    return this.propagate()
   }
 
   orElse (fn: () => Option<T>): Option<T> {
-    return fn()
+    const result = fn()
+    checkCallbackResult('orElse', result)
+    return result
   }
 
   getOrInsert (value: T): OptionalValue<T> {
@@ -85,7 +105,7 @@ export class None<T> extends OptionalValue<T> {
   }
 
   takeValue (): Option<T> {
-    return Option.None();
+    return this.propagate()
   }
 
   isSomeAnd (_andFn: (t: T) => boolean): boolean {
@@ -107,4 +127,25 @@ export class None<T> extends OptionalValue<T> {
   equalsWith (another: OptionalValue<T>, _equality: AreEqual<T>): boolean {
     return another.isAbsent()
   }
+
+  compareWith (another: OptionalValue<T>, _cmp: Comparator<T>): number {
+    return another.isPresent() ? -1 : 0
+  }
+
+  okOr<E> (err: E): Result<T, E> {
+    return Result.Err(err)
+  }
+
+  okOrElse<E> (fn: () => E): Result<T, E> {
+    return Result.Err(fn())
+  }
+
+  provenance (): Option<Provenance> {
+    return Option.fromNullable(this.origin)
+  }
+
+  private propagate<U> (): Option<U> {
+    // Nones do not hold a value, so the same instance can be shared to keep the provenance.
+    return fromNone(this as unknown as None<U>)
+  }
 }
\ No newline at end of file
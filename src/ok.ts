@@ -0,0 +1,100 @@
+import {ResultValue} from "./result-value.js"
+import {Result} from "./result.js"
+import {Option, someUnchecked} from "./option.js"
+
+export class Ok<T, E> extends ResultValue<T, E> {
+  value: T
+
+  constructor (value: T) {
+    super()
+    this.value = value
+  }
+
+  isOk (): boolean {
+    return true
+  }
+
+  isErr (): boolean {
+    return false
+  }
+
+  unwrap (): T {
+    return this.value
+  }
+
+  unwrapErr (): E {
+    throw new Error('unwrapErr over Ok.')
+  }
+
+  expect (_err: Error): T {
+    return this.value
+  }
+
+  expectErr (err: Error): E {
+    throw err
+  }
+
+  unwrapOr (_defaultValue: T): T {
+    return this.value
+  }
+
+  unwrapOrElse (_fn: (e: E) => T): T {
+    return this.value
+  }
+
+  map<U> (fn: (t: T) => U): Result<U, E> {
+    return Result.Ok(fn(this.value))
+  }
+
+  mapErr<F> (_fn: (e: E) => F): Result<T, F> {
+    return Result.Ok(this.value)
+  }
+
+  mapOrElse<U> (_defFn: (e: E) => U, mapFn: (t: T) => U): U {
+    return mapFn(this.value)
+  }
+
+  and<U> (another: Result<U, E>): Result<U, E> {
+    return another
+  }
+
+  or<F> (_another: Result<T, F>): Result<T, F> {
+    return Result.Ok(this.value)
+  }
+
+  andThen<U> (fn: (t: T) => Result<U, E>): Result<U, E> {
+    return fn(this.value)
+  }
+
+  orElse<F> (_fn: (e: E) => Result<T, F>): Result<T, F> {
+    return Result.Ok(this.value)
+  }
+
+  isOkAnd (fn: (t: T) => boolean): boolean {
+    return fn(this.value)
+  }
+
+  isErrAnd (_fn: (e: E) => boolean): boolean {
+    return false
+  }
+
+  ok (): Option<T> {
+    return someUnchecked(this.value)
+  }
+
+  err (): Option<E> {
+    return Option.None()
+  }
+
+  ifOk (fn: (t: T) => void): void {
+    fn(this.value)
+  }
+
+  ifErr (_fn: (e: E) => void): void {
+    /* no-op */
+  }
+
+  toArray (): T[] {
+    return [this.value]
+  }
+}
@@ -0,0 +1,140 @@
+import {Option} from "./option.js"
+import {Result} from "./result.js"
+import {Generator, MaybePromise} from "./types.js";
+
+/**
+ * A cell that can be written only once. Useful for lazy singletons and values that are
+ * initialized on first use.
+ *
+ * The initialization can be sync, using {@link OnceCell.getOrInit | `getOrInit`}, or async,
+ * using {@link OnceCell.getOrInitAsync | `getOrInitAsync`}. Concurrent async initializations
+ * are deduplicated: the initializer runs only once and every caller receives the same value.
+ *
+ * @example
+ * ```ts
+ * const connection = new OnceCell<Connection>()
+ *
+ * // Both calls share the same connection, `connect` is called only once.
+ * const [c1, c2] = await Promise.all([
+ *   connection.getOrInitAsync(() => connect()),
+ *   connection.getOrInitAsync(() => connect())
+ * ])
+ * ```
+ *
+ * @param T - The type of the value stored in the cell
+ */
+export class OnceCell<T> {
+  /**
+   * @hidden
+   * @private
+   */
+  private readonly value: Option<T>
+
+  /**
+   * @hidden
+   * @private
+   */
+  private readonly pending: Option<Promise<T>>
+
+  constructor () {
+    this.value = Option.None()
+    this.pending = Option.None()
+  }
+
+  /**
+   * Returns the value of the cell, if it was already initialized.
+   *
+   * @returns Some with the value, or None if the cell is empty.
+   *
+   * @example
+   * ```ts
+   * const cell = new OnceCell<number>()
+   * cell.get() // None
+   * cell.set(10)
+   * cell.get() // Some(10)
+   * ```
+   */
+  get (): Option<T> {
+    // A copy is returned, so callers cannot modify the content of the cell.
+    return this.value.cloned(value => value)
+  }
+
+  /**
+   * Initializes the cell with the given value. If the cell was already initialized it's
+   * not modified, and the given value is returned back inside an Err.
+   *
+   * @param value - Value to store.
+   * @returns Ok if the value was stored, Err with the given value otherwise.
+   *
+   * @example
+   * ```ts
+   * const cell = new OnceCell<number>()
+   * cell.set(10) // Ok(undefined)
+   * cell.set(20) // Err(20)
+   * cell.get() // Some(10)
+   * ```
+   */
+  set (value: T): Result<void, T> {
+    if (this.value.isSome()) {
+      return Result.Err(value)
+    }
+    this.value.insert(value)
+    return Result.Ok(undefined)
+  }
+
+  /**
+   * Returns the value of the cell. If the cell is empty, it's initialized with the result
+   * of the given function.
+   *
+   * @param fn - Function that generates the value. Only called if the cell is empty.
+   * @returns The value of the cell.
+   *
+   * @example
+   * ```ts
+   * const cell = new OnceCell<number>()
+   * cell.getOrInit(() => 10) // 10
+   * cell.getOrInit(() => 20) // 10
+   * ```
+   */
+  getOrInit (fn: Generator<T>): T {
+    return this.value.getOrInsertWith(fn)
+  }
+
+  /**
+   * Returns the value of the cell. If the cell is empty, it's initialized with the result
+   * of the given sync or async function.
+   *
+   * Concurrent calls while the initialization is in progress wait for the same initialization
+   * instead of calling their own function. If the initialization rejects, every waiting caller
+   * receives the rejection and the cell stays empty, so the next call tries again.
+   *
+   * @param fn - Function that generates the value. Only called if the cell is empty and
+   * there is no initialization in progress.
+   * @returns A promise with the value of the cell.
+   *
+   * @example
+   * ```ts
+   * const cell = new OnceCell<Config>()
+   * const config = await cell.getOrInitAsync(() => loadConfig())
+   * ```
+   */
+  getOrInitAsync (fn: Generator<MaybePromise<T>>): Promise<T> {
+    if (this.value.isSome()) {
+      return Promise.resolve(this.value.get())
+    }
+    return this.pending.getOrInsertWith(() => this.initialize(fn))
+  }
+
+  /**
+   * @hidden
+   * @private
+   */
+  private initialize (fn: Generator<MaybePromise<T>>): Promise<T> {
+    // The function is called asynchronously so the promise is always stored as pending
+    // before the initialization finishes, even if the function throws synchronously.
+    return Promise.resolve()
+      .then(fn)
+      .then(value => this.value.getOrInsert(value))
+      .finally(() => this.pending.take())
+  }
+}
@@ -0,0 +1,257 @@
+import {Option} from "./option.js"
+import {Generator, Transformation, Unsubscribe} from "./types.js";
+
+/**
+ * Function called every time the content of an observable option changes.
+ *
+ * @param T - The type of the value inside the option
+ *
+ * @example
+ * ```ts
+ * const log: OptionListener<number> = (previous, next) => console.log(previous, '->', next)
+ * ```
+ */
+export type OptionListener<T> = (previous: Option<T>, next: Option<T>) => void
+
+/**
+ * Read only view of an option that changes over time. It's implemented by
+ * {@link OptionCell | `OptionCell`} and by the cells derived from it with
+ * {@link OptionCell.map | `map`}.
+ *
+ * @param T - The type of the value inside the option
+ */
+export interface ObservableOption<T> {
+  /**
+   * Returns a copy of the current option.
+   */
+  get (): Option<T>
+
+  /**
+   * Registers a listener that is called on every change.
+   */
+  subscribe (listener: OptionListener<T>): Unsubscribe
+
+  /**
+   * Creates a derived observable option, recomputed every time this one changes.
+   */
+  map<U> (fn: Transformation<T, U>): ObservableOption<U>
+
+  /**
+   * Stops a derived observable option from following its source.
+   */
+  dispose (): void
+}
+
+/**
+ * A mutable container for an option that notifies every change. It offers the same
+ * in place mutations than {@link Option | `Option`} (`insert`, `take`, `replace`,
+ * `getOrInsert` and `getOrInsertWith`), and every mutation that changes the content calls
+ * the subscribed listeners with the previous and the next option.
+ *
+ * Mutations that leave the content untouched, like `take` over an empty cell or
+ * `getOrInsert` over a full one, do not notify.
+ *
+ * @example
+ * ```ts
+ * const user = new OptionCell<User>()
+ * const name = user.map(u => u.name)
+ * const unsubscribe = name.subscribe((prev, next) => render(next))
+ *
+ * user.insert(alice) // render is called with Some('alice')
+ * user.take() // render is called with None
+ * unsubscribe()
+ * ```
+ *
+ * @param T - The type of the value inside the option
+ */
+export class OptionCell<T> implements ObservableOption<T> {
+  /**
+   * @hidden
+   * @private
+   */
+  private readonly value: Option<T>
+
+  /**
+   * @hidden
+   * @private
+   */
+  private readonly listeners: Set<OptionListener<T>>
+
+  /**
+   * @hidden
+   * @private
+   */
+  private readonly detach: Option<Unsubscribe>
+
+  /**
+   * @param initial - Initial content of the cell. By default the cell starts empty.
+   */
+  constructor (initial: Option<T> = Option.None()) {
+    this.value = Option.None()
+    this.listeners = new Set()
+    this.detach = Option.None()
+    initial.ifSome(value => this.value.insert(value))
+  }
+
+  /**
+   * Returns a copy of the current option. Modifying the copy does not modify the cell.
+   *
+   * @returns The current option.
+   *
+   * @example
+   * ```ts
+   * new OptionCell(Option.Some(1)).get() // Some(1)
+   * ```
+   */
+  get (): Option<T> {
+    return this.value.cloned(value => value)
+  }
+
+  /**
+   * Registers a listener that is called with the previous and the next option every time the
+   * content of the cell changes.
+   *
+   * @param listener - Function to call on every change.
+   * @returns A function that removes the listener.
+   *
+   * @example
+   * ```ts
+   * const cell = new OptionCell<number>()
+   * const unsubscribe = cell.subscribe((prev, next) => console.log(prev, next))
+   * cell.insert(1) // logs None, Some(1)
+   * unsubscribe()
+   * cell.insert(2) // logs nothing
+   * ```
+   */
+  subscribe (listener: OptionListener<T>): Unsubscribe {
+    // Each subscription gets its own entry, so the same listener can be subscribed many times.
+    const wrapped: OptionListener<T> = (previous, next) => listener(previous, next)
+    this.listeners.add(wrapped)
+    return () => {
+      this.listeners.delete(wrapped)
+    }
+  }
+
+  /**
+   * Creates a derived cell that contains the result of applying the function to the content
+   * of this cell. The derived cell is recomputed, and notifies its own listeners, every time
+   * this cell changes, until it's disposed with {@link OptionCell.dispose | `dispose`}.
+   *
+   * @param fn - Transformation applied to the value.
+   * @typeParam U - Type of the derived value.
+   * @returns A read only derived cell.
+   *
+   * @example
+   * ```ts
+   * const count = new OptionCell(Option.Some(1))
+   * const double = count.map(n => n * 2)
+   * double.get() // Some(2)
+   * count.replace(5)
+   * double.get() // Some(10)
+   * double.dispose()
+   * ```
+   */
+  map<U> (fn: Transformation<T, U>): ObservableOption<U> {
+    const derived = new OptionCell(this.value.map(fn))
+    derived.detach.insert(this.subscribe((_previous, next) => derived.set(next.map(fn))))
+    return derived
+  }
+
+  /**
+   * Detaches a derived cell from its source, so it's not recomputed anymore and keeps its
+   * current content. Cells that are not derived are not affected.
+   *
+   * @example
+   * ```ts
+   * const count = new OptionCell(Option.Some(1))
+   * const double = count.map(n => n * 2)
+   * double.dispose()
+   * count.replace(5)
+   * double.get() // Some(2)
+   * ```
+   */
+  dispose (): void {
+    this.detach.take().ifSome(unsubscribe => unsubscribe())
+  }
+
+  /**
+   * Puts the value into the cell, replacing the previous content.
+   *
+   * @param value - The value to insert.
+   * @returns A copy of the new option.
+   */
+  insert (value: T): Option<T> {
+    this.mutate(opt => opt.insert(value))
+    return this.get()
+  }
+
+  /**
+   * Takes the value out of the cell, leaving it empty.
+   *
+   * @returns The previous option.
+   */
+  take (): Option<T> {
+    return this.value.isSome() ? this.mutate(opt => opt.take()) : Option.None()
+  }
+
+  /**
+   * Puts the value into the cell and returns the previous option.
+   *
+   * @param value - The new value.
+   * @returns The previous option.
+   */
+  replace (value: T): Option<T> {
+    return this.mutate(opt => opt.replace(value))
+  }
+
+  /**
+   * Returns the value of the cell. If the cell is empty, the given value is inserted first.
+   *
+   * @param value - Value to insert if the cell is empty.
+   * @returns The value of the cell.
+   */
+  getOrInsert (value: T): T {
+    return this.getOrInsertWith(() => value)
+  }
+
+  /**
+   * Returns the value of the cell. If the cell is empty, the result of the function is
+   * inserted first.
+   *
+   * @param fn - Function that generates the value. Only called if the cell is empty.
+   * @returns The value of the cell.
+   */
+  getOrInsertWith (fn: Generator<T>): T {
+    if (this.value.isNone()) {
+      this.mutate(opt => opt.insert(fn()))
+    }
+    return this.value.unwrap()
+  }
+
+  /**
+   * Replaces the whole content of the cell with the given option.
+   *
+   * @param next - The new content.
+   * @returns The previous option.
+   */
+  set (next: Option<T>): Option<T> {
+    return next.match({
+      some: value => this.replace(value),
+      none: () => this.take()
+    })
+  }
+
+  /**
+   * @hidden
+   * @private
+   */
+  private mutate<R> (fn: (opt: Option<T>) => R): R {
+    const previous = this.get()
+    const result = fn(this.value)
+    const next = this.get()
+    for (const listener of [...this.listeners]) {
+      listener(previous, next)
+    }
+    return result
+  }
+}
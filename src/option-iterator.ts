@@ -0,0 +1,85 @@
+import {Option} from "./option.js"
+
+export class OptionIterator<T> implements Iterator<T, undefined, unknown> {
+  private readonly option: Option<T>
+  private consumed: boolean
+
+  constructor (option: Option<T>) {
+    this.option = option
+    this.consumed = false
+  }
+
+  next (): IteratorResult<T, undefined> {
+    if (this.consumed || this.option.isNone()) {
+      return { done: true, value: undefined }
+    }
+    this.consumed = true
+    return { done: false, value: this.option.unwrap() }
+  }
+}
+
+/**
+ * Step of a do-notation block run by {@link Option.gen | `Option.gen`}. Obtained with the
+ * bind function received by the generator, and meant to be used with `yield*`.
+ *
+ * The option is yielded to the runner, that sends the value back when it's Some, or stops
+ * the generator when it's None.
+ *
+ * @param T - The type of the value inside the option
+ */
+export class GenStep<T> {
+  /**
+   * @hidden
+   * @private
+   */
+  private readonly option: Option<T>
+
+  /**
+   * @param option - Option to bind.
+   */
+  constructor (option: Option<T>) {
+    this.option = option
+  }
+
+  *[Symbol.iterator] (): Generator<Option<T>, T, unknown> {
+    return (yield this.option) as T
+  }
+}
+
+/**
+ * Step of a do-notation block run by {@link Option.genAsync | `Option.genAsync`}. Same as
+ * {@link GenStep | `GenStep`}, but the option can also be a promise of an option, like an
+ * {@link AsyncOption | `AsyncOption`}. It's awaited before being yielded.
+ *
+ * @param T - The type of the value inside the option
+ */
+export class AsyncGenStep<T> {
+  /**
+   * @hidden
+   * @private
+   */
+  private readonly source: Option<T> | PromiseLike<Option<T>>
+
+  /**
+   * @param source - Option to bind.
+   */
+  constructor (source: Option<T> | PromiseLike<Option<T>>) {
+    this.source = source
+  }
+
+  async *[Symbol.asyncIterator] (): AsyncGenerator<Option<T>, T, unknown> {
+    return (yield await this.source) as T
+  }
+}
+
+/**
+ * Function received by the generator of {@link Option.gen | `Option.gen`}. It binds an option
+ * so `yield*` can be used over it.
+ */
+export type GenBind = <T>(option: Option<T>) => GenStep<T>
+
+/**
+ * Function received by the generator of {@link Option.genAsync | `Option.genAsync`}. It binds
+ * an option, a promise of an option or an async option so `yield*` can be used over it.
+ */
+export type AsyncGenBind = <T>(source: Option<T> | PromiseLike<Option<T>>) => AsyncGenStep<T>
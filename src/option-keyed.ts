@@ -0,0 +1,334 @@
+import {Option, someUnchecked} from "./option.js"
+import {hashValue, sameKey} from "./hash.js"
+import {AreEqual} from "./types.js"
+
+/**
+ * Customizes how the values inside the keys of {@link OptionKeyedMap | `OptionKeyedMap`}
+ * and {@link OptionKeyedSet | `OptionKeyedSet`} are compared. Both functions have to be
+ * consistent: values that are equal must have the same hash code.
+ *
+ * By default values are compared with `===` (options recursively by content, and
+ * {@link Equatable | `Equatable`} values using their own method) and hashed with
+ * {@link hashValue | `hashValue`}.
+ *
+ * @param K - Type of the values inside the keys.
+ *
+ * @example
+ * ```ts
+ * const byId: KeyEquality<User> = {
+ *   equality: (a, b) => a.id === b.id,
+ *   hash: user => hashValue(user.id)
+ * }
+ * ```
+ */
+export interface KeyEquality<K> {
+  equality?: AreEqual<K>
+  hash?: (key: K) => number
+}
+
+type Entry<K, V> = [Option<K>, V]
+
+const NONE_KEY_HASH = 0
+
+/**
+ * A map where the keys are options. Keys are compared by content using
+ * {@link Option.equalsWith | `equalsWith`}, so `Some(1)` and another `Some(1)` find the
+ * same entry, and all Nones are the same key.
+ *
+ * Entries are iterated in insertion order.
+ *
+ * The map stores a frozen copy of each key, so mutating the option used to insert an entry
+ * does not affect the map.
+ *
+ * @param K - Type of the values inside the keys.
+ * @param V - Type of the values of the map.
+ *
+ * @example
+ * ```ts
+ * const map = new OptionKeyedMap<number, string>()
+ * map.set(Option.Some(1), 'one')
+ * map.set(Option.None(), 'nothing')
+ * map.get(Option.Some(1)) // Some('one')
+ * map.get(Option.None()) // Some('nothing')
+ * map.get(Option.Some(2)) // None
+ * ```
+ */
+export class OptionKeyedMap<K, V> implements Iterable<Entry<K, V>> {
+  /**
+   * @hidden
+   * @private
+   */
+  private readonly buckets: Map<number, Entry<K, V>[]>
+
+  /**
+   * @hidden
+   * @private
+   */
+  private readonly ordered: Set<Entry<K, V>>
+
+  /**
+   * @hidden
+   * @private
+   */
+  private readonly equality: AreEqual<K>
+
+  /**
+   * @hidden
+   * @private
+   */
+  private readonly hash: (key: K) => number
+
+  /**
+   * @param entries - Initial entries of the map.
+   * @param keyEquality - Customizes how the values inside the keys are compared.
+   */
+  constructor (entries: Iterable<Entry<K, V>> = [], keyEquality: KeyEquality<K> = {}) {
+    this.buckets = new Map()
+    this.ordered = new Set()
+    this.equality = keyEquality.equality ?? sameKey
+    this.hash = keyEquality.hash ?? hashValue
+    for (const [key, value] of entries) {
+      this.set(key, value)
+    }
+  }
+
+  /**
+   * Number of entries in the map.
+   */
+  get size (): number {
+    return this.ordered.size
+  }
+
+  /**
+   * Returns the value associated with the key.
+   *
+   * @param key - Key to look for.
+   * @returns Some with the value if the key is present, None otherwise.
+   */
+  get (key: Option<K>): Option<V> {
+    return this.find(key).mapOrElse(() => Option.None(), ([, value]) => someUnchecked(value))
+  }
+
+  /**
+   * Returns true if the key is present in the map.
+   *
+   * @param key - Key to look for.
+   */
+  has (key: Option<K>): boolean {
+    return this.find(key).isSome()
+  }
+
+  /**
+   * Associates the value with the key. If the key was already present, the value is replaced
+   * but the original key is kept. New keys are stored as frozen copies.
+   *
+   * @param key - Key of the entry.
+   * @param value - Value of the entry.
+   * @returns The same map.
+   */
+  set (key: Option<K>, value: V): this {
+    this.find(key).match({
+      some: entry => { entry[1] = value },
+      none: () => this.insert([this.copyKey(key), value])
+    })
+    return this
+  }
+
+  /**
+   * Removes the entry of the key.
+   *
+   * @param key - Key to remove.
+   * @returns true if the key was present.
+   */
+  delete (key: Option<K>): boolean {
+    const hash = this.hashKey(key)
+    const bucket = this.buckets.get(hash) ?? []
+    const index = bucket.findIndex(([existing]) => existing.equalsWith(key, this.equality))
+    if (index === -1) {
+      return false
+    }
+    this.ordered.delete(bucket[index])
+    bucket.splice(index, 1)
+    if (bucket.length === 0) {
+      this.buckets.delete(hash)
+    }
+    return true
+  }
+
+  /**
+   * Removes all the entries.
+   */
+  clear (): void {
+    this.buckets.clear()
+    this.ordered.clear()
+  }
+
+  /**
+   * @returns An iterator over the keys.
+   */
+  *keys (): IterableIterator<Option<K>> {
+    for (const [key] of this) {
+      yield key
+    }
+  }
+
+  /**
+   * @returns An iterator over the values.
+   */
+  *values (): IterableIterator<V> {
+    for (const [, value] of this) {
+      yield value
+    }
+  }
+
+  /**
+   * @returns An iterator over the entries.
+   */
+  *entries (): IterableIterator<Entry<K, V>> {
+    yield* this
+  }
+
+  /**
+   * Iterates the entries in insertion order.
+   *
+   * @returns An iterator over the entries.
+   */
+  *[Symbol.iterator] (): Iterator<Entry<K, V>> {
+    for (const [key, value] of this.ordered) {
+      yield [key, value]
+    }
+  }
+
+  /**
+   * @hidden
+   * @private
+   */
+  private find (key: Option<K>): Option<Entry<K, V>> {
+    const bucket = this.buckets.get(this.hashKey(key)) ?? []
+    return Option.fromNullable(bucket.find(([existing]) => existing.equalsWith(key, this.equality)))
+  }
+
+  /**
+   * @hidden
+   * @private
+   */
+  private insert (entry: Entry<K, V>): void {
+    const hash = this.hashKey(entry[0])
+    this.buckets.set(hash, [...this.buckets.get(hash) ?? [], entry])
+    this.ordered.add(entry)
+  }
+
+  /**
+   * @hidden
+   * @private
+   */
+  private copyKey (key: Option<K>): Option<K> {
+    const copy = key.cloned(value => value)
+    copy.freeze()
+    return copy
+  }
+
+  /**
+   * @hidden
+   * @private
+   */
+  private hashKey (key: Option<K>): number {
+    return key.mapOrElse(() => NONE_KEY_HASH, value => this.hash(value))
+  }
+}
+
+/**
+ * A set of options. Options are compared by content using
+ * {@link Option.equalsWith | `equalsWith`}, so `Some(1)` and another `Some(1)` are the
+ * same element, and all Nones are the same element.
+ *
+ * Elements are iterated in insertion order.
+ *
+ * @param K - Type of the values inside the options.
+ *
+ * @example
+ * ```ts
+ * const set = new OptionKeyedSet([Option.Some(1), Option.Some(1), Option.None(), Option.None()])
+ * set.size // 2
+ * set.has(Option.Some(1)) // true
+ * ```
+ */
+export class OptionKeyedSet<K> implements Iterable<Option<K>> {
+  /**
+   * @hidden
+   * @private
+   */
+  private readonly map: OptionKeyedMap<K, true>
+
+  /**
+   * @param elements - Initial elements of the set.
+   * @param keyEquality - Customizes how the values inside the options are compared.
+   */
+  constructor (elements: Iterable<Option<K>> = [], keyEquality: KeyEquality<K> = {}) {
+    this.map = new OptionKeyedMap([], keyEquality)
+    for (const elem of elements) {
+      this.add(elem)
+    }
+  }
+
+  /**
+   * Number of elements in the set.
+   */
+  get size (): number {
+    return this.map.size
+  }
+
+  /**
+   * Returns true if the element is present in the set.
+   *
+   * @param elem - Element to look for.
+   */
+  has (elem: Option<K>): boolean {
+    return this.map.has(elem)
+  }
+
+  /**
+   * Adds the element to the set. If an equal element was already present the set
+   * is not modified.
+   *
+   * @param elem - Element to add.
+   * @returns The same set.
+   */
+  add (elem: Option<K>): this {
+    this.map.set(elem, true)
+    return this
+  }
+
+  /**
+   * Removes the element from the set.
+   *
+   * @param elem - Element to remove.
+   * @returns true if the element was present.
+   */
+  delete (elem: Option<K>): boolean {
+    return this.map.delete(elem)
+  }
+
+  /**
+   * Removes all the elements.
+   */
+  clear (): void {
+    this.map.clear()
+  }
+
+  /**
+   * @returns An iterator over the elements.
+   */
+  values (): IterableIterator<Option<K>> {
+    return this.map.keys()
+  }
+
+  /**
+   * Iterates the elements in insertion order.
+   *
+   * @returns An iterator over the elements.
+   */
+  [Symbol.iterator] (): Iterator<Option<K>> {
+    return this.map.keys()
+  }
+}
@@ -1,17 +1,53 @@
 import {OptionalValue} from "./optional-value.js"
 import {Some} from "./some.js"
 import {None} from "./none.js"
+import {Result} from "./result.js"
+import {AsyncOption} from "./async-option.js"
+import {OptionDuo, OptionTuple} from "./unzip.js"
+import {AsyncGenBind, AsyncGenStep, GenBind, GenStep, OptionIterator} from "./option-iterator.js"
+import {unfold} from "./iter.js"
+import {deepEqual} from "./equality.js"
+import {comparator, naturalOrder, NoneOrdering} from "./compare.js"
+import {Semigroup} from "./semigroup.js"
+import {buildError, ErrorClass, ErrorFactory, ErrorSource} from "./errors.js"
+import {combineHashes, hashSymbol, hashValue} from "./hash.js"
+import {HookRegistry, hooks} from "./hooks.js"
+import {checkSome, configure, OptionConfig} from "./contracts.js"
+import {capture, NoneOptions, Provenance, setTracking} from "./provenance.js"
+import {encodeOption, nullableCodec, OptionCodec, OptionEncoding, resolveCodec, reviverFor, stringifyWith} from "./json.js"
 import {
   AreEqual,
+  Comparator,
   FlattenOption,
   GenerateOption,
   Generator,
+  MutRef,
+  None as NoneOption,
+  OptionLike,
+  OptionDuoMatcher,
+  OptionMatcher,
   Predicate,
+  ReadonlyOption,
+  Some as SomeOption,
   Transformation,
   TransformToOption,
+  UnwrapOptionRecord,
   ZipTransformation
 } from "./types.js";
 
+/**
+ * Symbol that brands every option. {@link Option.isOption | `Option.isOption`} uses it instead
+ * of `instanceof`.
+ *
+ * It's registered with `Symbol.for`, so different copies of the library, and options coming
+ * from other realms, share the same symbol.
+ */
+export const optionSymbol: unique symbol = Symbol.for('nochoices.option')
+
+const NONE_HASH = 0x6e6f6e65
+const SOME_HASH = 0x736f6d65
+
+let wrap: <T>(value: OptionalValue<T>) => Option<T>
 
 /**
  *
@@ -65,6 +101,10 @@ export class Option<T> {
     this.value = value
   }
 
+  static {
+    wrap = <U>(value: OptionalValue<U>) => new Option(value)
+  }
+
   /**
    * Creates an instance of Option with a value. (Some)
    *
@@ -79,13 +119,18 @@ export class Option<T> {
    * ```
    */
   static Some<T> (value: T): Option<T> {
+    checkSome(value)
     return new Option(new Some(value))
   }
 
-
   /**
    * Creates an empty optional value (represents no value).
    *
+   * When provenance tracking is enabled, the given reason is recorded in the
+   * {@link Option.provenance | `provenance`} of the option. The given cause is always recorded,
+   * and it's used as the cause of the errors thrown by `unwrap` and `expect`.
+   *
+   * @param options - Optional reason and cause of the absence.
    * @typeParam T - Type of the value that the Option may contain.
    * @returns An instance of Option without a value ( None() ).
    *
@@ -93,10 +138,12 @@ export class Option<T> {
    * ```ts
    * const none = Option.None()
    * none.isNone() // true
+   * Option.None({ reason: 'user not found' })
+   * Option.None({ cause: new Error('user not found') }).unwrap() // throws UnwrapNoneError with the cause
    * ```
    */
-  static None<T> (): Option<T> {
-    return new Option<T>(new None())
+  static None<T> (options: NoneOptions = {}): Option<T> {
+    return new Option<T>(new None(capture('None', options.reason), options.cause))
   }
 
   /**
@@ -118,12 +165,566 @@ export class Option<T> {
    */
   static fromNullable<T> (param: T | null | undefined): Option<T> {
     if (param === null || param === undefined) {
-      return Option.None()
+      return new Option<T>(new None(capture('fromNullable')))
     } else {
-      return Option.Some(param)
+      return someUnchecked(param)
+    }
+  }
+
+  /**
+   * Returns true if the given value is an option. Unlike `instanceof Option`, it also
+   * recognizes options created by other copies of the library or in other realms (iframes,
+   * vm contexts, etc.).
+   *
+   * Options from other copies do not share the internal state of this class, so they should be
+   * converted with {@link Option.adopt | `adopt`} before combining them with local options.
+   *
+   * @param value - Any value.
+   * @returns true if the value is an option.
+   *
+   * @example
+   * ```ts
+   * Option.isOption(Option.Some(1)) // true
+   * Option.isOption(optionFromAnotherCopy) // true
+   * Option.isOption({ value: 1 }) // false
+   * ```
+   */
+  static isOption (value: unknown): value is Option<unknown> {
+    return typeof value === 'object' && value !== null &&
+      (value as { [optionSymbol]?: unknown })[optionSymbol] === true
+  }
+
+  /**
+   * Converts an option created by another copy of the library, or in another realm, into
+   * an instance of this class with the same content. Options of this class are returned as is.
+   *
+   * @param foreign - An option branded by any copy of the library.
+   * @typeParam T - Type of the value that the Option may contain.
+   * @returns An option of this class.
+   * @throws TypeError If the given value is not an option.
+   *
+   * @example
+   * ```ts
+   * const local = Option.adopt(optionFromAnotherCopy)
+   * local instanceof Option // true
+   * ```
+   */
+  static adopt<T> (foreign: OptionLike<T>): Option<T> {
+    // Local options are detected by class, that's the one case where the brand is not enough.
+    if (foreign instanceof Option) {
+      return foreign
+    }
+    if (!Option.isOption(foreign)) {
+      throw new TypeError('Option.adopt received a value that is not an option.')
+    }
+    return foreign.isSome() ? new Option(new Some(foreign.unwrap() as T)) : Option.None()
+  }
+
+
+  /**
+   * Creates an {@link AsyncOption | `AsyncOption`} from a promise. The promise value
+   * is wrapped as Some once it resolves.
+   *
+   * If the promise gets rejected, the rejection is propagated when the async option is
+   * awaited. To transform rejections into None use
+   * {@link AsyncOption.noneOnReject | `AsyncOption#noneOnReject`}.
+   *
+   * @param promise - The promise with the value to be wrapped.
+   * @typeParam T - Type of the value that the Option may contain.
+   * @returns An AsyncOption that resolves to Some with the value of the promise.
+   *
+   * @example
+   * ```ts
+   * const opt = await Option.fromPromise(Promise.resolve(10)) // Some(10)
+   * const opt2 = await Option.fromPromise(Promise.reject(new Error())).noneOnReject() // None
+   * ```
+   */
+  static fromPromise<T> (promise: PromiseLike<T>): AsyncOption<T> {
+    return AsyncOption.fromPromise(promise.then(t => someUnchecked(t)))
+  }
+
+  /**
+   * Runs a generator function using do-notation over options.
+   *
+   * The generator receives a bind function. Inside the generator `yield*` can be used over
+   * any bound option to get the value inside it. The execution short-circuits at the first None:
+   * the rest of the generator is not executed and the result is None. If the generator finishes,
+   * the returned value is wrapped in Some.
+   *
+   * Options are bound with `yield* $(opt)` instead of `yield* opt` because options are
+   * iterable: `yield*` over an option delegates to its iterator, which yields the contained
+   * value, like in any other generator. The bind function wraps the
+   * option in a {@link GenStep | `GenStep`}, whose iterator hands the option to this runner.
+   *
+   * This is a more readable alternative to long chains of {@link Option.andThen | `andThen`}
+   * when later steps need values computed in earlier ones.
+   *
+   * @param body - Generator function using `yield*` over bound options.
+   * @typeParam R - Type returned by the generator.
+   * @returns Some with the returned value, or None if any yielded option was None.
+   *
+   * @example
+   * ```ts
+   * const res = Option.gen(function* ($) {
+   *   const a = yield* $(Option.Some(1))
+   *   const b = yield* $(Option.Some(2))
+   *   return a + b
+   * }) // Some(3)
+   *
+   * const res2 = Option.gen(function* ($) {
+   *   const a = yield* $(Option.Some(1))
+   *   const b = yield* $(Option.None<number>())
+   *   return a + b // never executed
+   * }) // None
+   * ```
+   */
+  static gen<R> (body: (bind: GenBind) => Iterator<Option<unknown>, R, unknown>): Option<R> {
+    const iterator = body(option => new GenStep(option))
+    let step = iterator.next()
+    while (!step.done) {
+      if (step.value.isNone()) {
+        iterator.return?.(undefined as R)
+        return Option.None()
+      }
+      step = iterator.next(step.value.unwrap())
+    }
+    return someUnchecked(step.value)
+  }
+
+  /**
+   * Async version of {@link Option.gen | `gen`}. The body is an async generator function,
+   * so it can await promises between steps.
+   *
+   * The bind function accepts options, promises of options and {@link AsyncOption | `AsyncOption`}
+   * instances, so a `Promise<Option<T>>` can be consumed directly with `yield* $(promise)`.
+   *
+   * @param body - Async generator function using `yield*` over bound options.
+   * @typeParam R - Type returned by the generator.
+   * @returns An AsyncOption that resolves to Some with the returned value,
+   * or None if any yielded option was None.
+   *
+   * @example
+   * ```ts
+   * const res = await Option.genAsync(async function* ($) {
+   *   const id = yield* $(findUserId()) // findUserId returns Promise<Option<number>>
+   *   const user = yield* $(AsyncOption.fromPromise(findUser(id)))
+   *   return user.name
+   * })
+   * ```
+   */
+  static genAsync<R> (body: (bind: AsyncGenBind) => AsyncIterator<Option<unknown>, R, unknown>): AsyncOption<R> {
+    const run = async () => {
+      const iterator = body(source => new AsyncGenStep(source))
+      let step = await iterator.next()
+      while (!step.done) {
+        if (step.value.isNone()) {
+          await iterator.return?.(undefined as R)
+          return Option.None<R>()
+        }
+        step = await iterator.next(step.value.unwrap())
+      }
+      return someUnchecked(step.value)
+    }
+    return AsyncOption.fromPromise(run())
+  }
+
+  /**
+   * Matches over the variants of 2 options at the same time. Exactly one of the
+   * branches of the matcher is executed, depending on which options are Some and which
+   * are None.
+   *
+   * This is a more readable alternative to nested {@link Option.zip | `zip`} or
+   * {@link Option.xor | `xor`} calls.
+   *
+   * @param options - Tuple of 2 options to match over.
+   * @param matcher - Object with one function for each combination of variants.
+   * @typeParam A - The type of the value contained in the first option.
+   * @typeParam B - The type of the value contained in the second option.
+   * @typeParam R - The type returned by the matcher.
+   * @returns The result of the executed branch.
+   *
+   * @example
+   * ```ts
+   * const res = Option.matchAll([Option.Some(2), Option.None<string>()], {
+   *   someSome: (n, s) => s.repeat(n),
+   *   someNone: n => `only ${n}`,
+   *   noneSome: s => `only ${s}`,
+   *   noneNone: () => 'nothing'
+   * }) // 'only 2'
+   * ```
+   */
+  static matchAll<A, B, R> (options: OptionDuo<A, B>, matcher: OptionDuoMatcher<A, B, R>): R {
+    const [optA, optB] = options
+    return optA.match({
+      some: a => optB.match({
+        some: b => matcher.someSome(a, b),
+        none: () => matcher.someNone(a)
+      }),
+      none: () => optB.match({
+        some: b => matcher.noneSome(b),
+        none: () => matcher.noneNone()
+      })
+    })
+  }
+
+  /**
+   * Serializes a value to a JSON string, encoding every option inside it with the given codec.
+   *
+   * Plain `JSON.stringify` always uses the `tagged` encoding. This method allows to choose
+   * a different one for a single serialization.
+   *
+   * @param value - Value to serialize. Options can be at any level of nesting.
+   * @param codec - Name of a built-in encoding or a custom {@link OptionCodec | `OptionCodec`}.
+   * @param space - Indentation, same as in `JSON.stringify`.
+   * @returns The JSON string.
+   *
+   * @example
+   * ```ts
+   * Option.stringify({ a: Option.Some(1), b: Option.None() }, 'nullable') // '{"a":1,"b":null}'
+   * Option.stringify(Option.Some(1), 'tagged') // '{"$option":"some","value":1}'
+   * Option.stringify(Option.Some(1), 'serde') // '{"Some":1}'
+   * ```
+   */
+  static stringify (value: unknown, codec: OptionCodec | OptionEncoding = 'tagged', space?: string | number): string {
+    return stringifyWith(value, resolveCodec(codec), space)
+  }
+
+  /**
+   * Returns a reviver to be used with `JSON.parse` that transforms encoded options
+   * back into Option instances, at any level of nesting.
+   *
+   * The `nullable` encoding is ambiguous, so its reviver does not transform anything.
+   * Use {@link Option.fromJSON | `fromJSON`} for that encoding instead.
+   *
+   * @param codec - Name of a built-in encoding or a custom {@link OptionCodec | `OptionCodec`}.
+   * @returns A reviver function for `JSON.parse`.
+   *
+   * @example
+   * ```ts
+   * const parsed = JSON.parse('{"a":{"$option":"some","value":1}}', Option.reviver())
+   * parsed.a // Some(1)
+   * ```
+   */
+  static reviver (codec: OptionCodec | OptionEncoding = 'tagged'): (key: string, value: unknown) => unknown {
+    return reviverFor(resolveCodec(codec))
+  }
+
+  /**
+   * Parses a JSON string that contains an encoded option at the top level.
+   *
+   * Nested options are decoded too. The content of the option is not validated,
+   * so the type parameter has to be provided by the caller.
+   *
+   * @param json - JSON string to parse.
+   * @param codec - Name of a built-in encoding or a custom {@link OptionCodec | `OptionCodec`}.
+   * @typeParam T - Type of the value that the Option may contain.
+   * @returns The decoded option.
+   * @throws If the top level value is not an encoded option.
+   *
+   * @example
+   * ```ts
+   * Option.fromJSON<number>('{"$option":"some","value":1}') // Some(1)
+   * Option.fromJSON<number>('null', 'nullable') // None
+   * Option.fromJSON<Option<number>>('{"Some":"None"}', 'serde') // Some(None)
+   * ```
+   */
+  static fromJSON<T> (json: string, codec: OptionCodec | OptionEncoding = 'tagged'): Option<T> {
+    const resolved = resolveCodec(codec)
+    const parsed = JSON.parse(json, reviverFor(resolved))
+    if (Option.isOption(parsed)) {
+      return parsed as Option<T>
+    }
+    if (resolved === nullableCodec) {
+      return Option.fromNullable(parsed)
     }
+    throw new Error('JSON does not contain an encoded option.')
   }
 
+  /**
+   * Combines a list of options into an option of a list. If every option is Some the result
+   * is Some with all the values, in the same order. If any option is None the result is None.
+   *
+   * @param options - Options to combine.
+   * @typeParam T - Type of the values contained in the options.
+   * @returns Some with all the values, or None.
+   *
+   * @example
+   * ```ts
+   * Option.all([Option.Some(1), Option.Some(2)]) // Some([1, 2])
+   * Option.all([Option.Some(1), Option.None()]) // None
+   * Option.all([]) // Some([])
+   * ```
+   */
+  static all<T> (options: Iterable<Option<T>>): Option<T[]> {
+    return Option.traverse(options, opt => opt)
+  }
+
+  /**
+   * Record version of {@link Option.all | `all`}. If every option in the record is Some
+   * the result is Some with a record with the same keys and the contained values.
+   *
+   * @param record - Record of options to combine.
+   * @typeParam R - Type of the record.
+   * @returns Some with a record of values, or None.
+   *
+   * @example
+   * ```ts
+   * Option.allRecord({ a: Option.Some(1), b: Option.Some('foo') }) // Some({ a: 1, b: 'foo' })
+   * Option.allRecord({ a: Option.Some(1), b: Option.None() }) // None
+   * ```
+   */
+  static allRecord<R extends Record<string, Option<unknown>>> (record: R): Option<UnwrapOptionRecord<R>> {
+    return Option.traverseRecord(record, opt => opt)
+      .value.map(values => values as UnwrapOptionRecord<R>)
+  }
+
+  /**
+   * Returns the first option that is Some, or None if all of them are None.
+   *
+   * @param options - Options to check.
+   * @typeParam T - Type of the values contained in the options.
+   * @returns The first Some, or None.
+   *
+   * @example
+   * ```ts
+   * Option.any([Option.None(), Option.Some(1), Option.Some(2)]) // Some(1)
+   * Option.any([Option.None(), Option.None()]) // None
+   * ```
+   */
+  static any<T> (options: Iterable<Option<T>>): Option<T> {
+    for (const opt of options) {
+      if (opt.isSome()) {
+        return opt
+      }
+    }
+    return Option.None()
+  }
+
+  /**
+   * Record version of {@link Option.any | `any`}. Returns the first Some in the record,
+   * following the order of the keys.
+   *
+   * @param record - Record of options to check.
+   * @typeParam R - Type of the record.
+   * @returns The first Some, or None.
+   *
+   * @example
+   * ```ts
+   * Option.anyRecord({ a: Option.None(), b: Option.Some('foo') }) // Some('foo')
+   * ```
+   */
+  static anyRecord<R extends Record<string, Option<unknown>>> (record: R): Option<FlattenOption<R[keyof R]>> {
+    return Option.any(Object.values(record) as Option<FlattenOption<R[keyof R]>>[])
+  }
+
+  /**
+   * Applies a function that returns an option to every element of a list. If every result
+   * is Some, returns Some with all the values. Stops at the first None and returns None.
+   *
+   * @param values - Values to transform.
+   * @param fn - Function applied to each value.
+   * @typeParam A - Type of the elements of the list.
+   * @typeParam B - Type of the values returned by the function.
+   * @returns Some with the transformed values, or None.
+   *
+   * @example
+   * ```ts
+   * const parse = (s: string) => Option.Some(Number(s)).filter(n => !isNaN(n))
+   * Option.traverse(['1', '2'], parse) // Some([1, 2])
+   * Option.traverse(['1', 'foo'], parse) // None
+   * ```
+   */
+  static traverse<A, B> (values: Iterable<A>, fn: TransformToOption<A, B>): Option<B[]> {
+    const result: B[] = []
+    for (const value of values) {
+      const opt = fn(value)
+      if (opt.isNone()) {
+        return Option.None()
+      }
+      result.push(opt.unwrap())
+    }
+    return someUnchecked(result)
+  }
+
+  /**
+   * Record version of {@link Option.traverse | `traverse`}. The function receives each
+   * value and its key.
+   *
+   * @param record - Record to transform.
+   * @param fn - Function applied to each value.
+   * @typeParam R - Type of the record.
+   * @typeParam B - Type of the values returned by the function.
+   * @returns Some with a record of transformed values, or None.
+   *
+   * @example
+   * ```ts
+   * const parse = (s: string) => Option.Some(Number(s)).filter(n => !isNaN(n))
+   * Option.traverseRecord({ a: '1', b: '2' }, parse) // Some({ a: 1, b: 2 })
+   * Option.traverseRecord({ a: '1', b: 'foo' }, parse) // None
+   * ```
+   */
+  static traverseRecord<R extends Record<string, unknown>, B> (
+    record: R,
+    fn: (value: R[keyof R], key: keyof R) => Option<B>
+  ): Option<Record<keyof R, B>> {
+    return Option.traverse(Object.entries(record), ([key, value]) =>
+      fn(value as R[keyof R], key).value.map((b): [string, B] => [key, b])
+    ).value.map(entries => Object.fromEntries(entries) as Record<keyof R, B>)
+  }
+
+  /**
+   * Returns the values of all the options that are Some, discarding the Nones.
+   *
+   * @param options - Options to compact.
+   * @typeParam T - Type of the values contained in the options.
+   * @returns List with the values of the options that are Some.
+   *
+   * @example
+   * ```ts
+   * Option.compact([Option.Some(1), Option.None(), Option.Some(3)]) // [1, 3]
+   * ```
+   */
+  static compact<T> (options: Iterable<Option<T>>): T[] {
+    return Array.from(options).flatMap(opt => opt.toArray())
+  }
+
+  /**
+   * Record version of {@link Option.compact | `compact`}. Returns a record with only the
+   * keys whose options are Some.
+   *
+   * @param record - Record of options to compact.
+   * @typeParam R - Type of the record.
+   * @returns Record with the values of the options that are Some.
+   *
+   * @example
+   * ```ts
+   * Option.compactRecord({ a: Option.Some(1), b: Option.None() }) // { a: 1 }
+   * ```
+   */
+  static compactRecord<R extends Record<string, Option<unknown>>> (record: R): Partial<UnwrapOptionRecord<R>> {
+    const entries = Object.entries(record)
+      .flatMap(([key, opt]) => opt.value.map((value): [string, unknown] => [key, value]).toArray())
+    return Object.fromEntries(entries) as Partial<UnwrapOptionRecord<R>>
+  }
+
+  /**
+   * Splits a list of options into the values of the ones that are Some and the
+   * amount of Nones.
+   *
+   * @param options - Options to partition.
+   * @typeParam T - Type of the values contained in the options.
+   * @returns A tuple with the values of the Somes and the number of Nones.
+   *
+   * @example
+   * ```ts
+   * Option.partition([Option.Some(1), Option.None(), Option.Some(3)]) // [[1, 3], 1]
+   * ```
+   */
+  static partition<T> (options: Iterable<Option<T>>): [T[], number] {
+    const all = Array.from(options)
+    const somes = Option.compact(all)
+    return [somes, all.length - somes.length]
+  }
+
+  /**
+   * Record version of {@link Option.partition | `partition`}.
+   *
+   * @param record - Record of options to partition.
+   * @typeParam R - Type of the record.
+   * @returns A tuple with a record of the values of the Somes and the number of Nones.
+   *
+   * @example
+   * ```ts
+   * Option.partitionRecord({ a: Option.Some(1), b: Option.None() }) // [{ a: 1 }, 1]
+   * ```
+   */
+  static partitionRecord<R extends Record<string, Option<unknown>>> (record: R): [Partial<UnwrapOptionRecord<R>>, number] {
+    const somes = Option.compactRecord(record)
+    return [somes, Object.keys(record).length - Object.keys(somes).length]
+  }
+
+  /**
+   * Combines any number of options into an option of a tuple. If every option is Some
+   * the result is Some with a tuple of all the values. If any is None the result is None.
+   *
+   * This is the variadic version of {@link Option.zip | `zip`}, avoiding nested tuples
+   * when combining more than 2 options.
+   *
+   * @param options - Options to combine.
+   * @typeParam T - Tuple with the types contained in each option.
+   * @returns Some with a tuple of values, or None.
+   *
+   * @example
+   * ```ts
+   * Option.zipAll(Option.Some(1), Option.Some('foo'), Option.Some(true)) // Some([1, 'foo', true])
+   * Option.zipAll(Option.Some(1), Option.None(), Option.Some(true)) // None
+   * ```
+   */
+  static zipAll<T extends unknown[]> (...options: OptionTuple<T>): Option<T> {
+    return Option.all<unknown>(options).value.map(values => values as T)
+  }
+
+  /**
+   * Lazily generates values from a seed until the given function returns None. The function
+   * receives the current seed and returns the next value together with the next seed.
+   *
+   * @param seed - Initial seed.
+   * @param fn - Function that generates a value and the next seed.
+   * @typeParam S - Type of the seed.
+   * @typeParam T - Type of the generated values.
+   * @returns An iterator with the generated values.
+   *
+   * @example
+   * ```ts
+   * const powers = Option.unfold(1, n => Option.Some<[number, number]>([n, n * 2]).filter(() => n < 10))
+   * [...powers] // [1, 2, 4, 8]
+   * ```
+   */
+  static unfold<S, T> (seed: S, fn: (seed: S) => Option<[T, S]>): IterableIterator<T> {
+    return unfold(seed, fn)
+  }
+
+  /**
+   * Creates a comparator for options, meant to be used with `Array#sort`. Somes are
+   * compared using the given comparator, and Nones are placed first or last.
+   *
+   * @param cmp - Comparator for the values inside the options. By default values are compared with `<` and `>`.
+   * @param ordering - Where to place the Nones. By default they go first.
+   * @typeParam T - Type of the values inside the options.
+   * @returns A comparator for options.
+   *
+   * @example
+   * ```ts
+   * const opts = [Option.Some(2), Option.None(), Option.Some(1)]
+   * opts.sort(Option.comparator()) // [None, Some(1), Some(2)]
+   * opts.sort(Option.comparator((a, b) => b - a, { noneLast: true })) // [Some(2), Some(1), None]
+   * ```
+   */
+  static comparator<T> (cmp: Comparator<T> = naturalOrder, ordering: NoneOrdering = { noneFirst: true }): Comparator<Option<T>> {
+    return comparator(cmp, ordering)
+  }
+
+  /**
+   * Combines the values of all the Somes using the given function. Nones are ignored.
+   *
+   * @param options - Options to combine.
+   * @param fn - Function used to combine 2 values. The library ships many common ones in `semigroups`.
+   * @typeParam T - Type of the values inside the options.
+   * @returns The combined value, or None if there are no Somes.
+   *
+   * @example
+   * ```ts
+   * Option.combineAll([Option.Some(1), Option.None(), Option.Some(2)], semigroups.sum) // Some(3)
+   * Option.combineAll([Option.None<number>()], semigroups.sum) // None
+   * ```
+   */
+  static combineAll<T> (options: Iterable<Option<T>>, fn: Semigroup<T>): Option<T> {
+    let acc = Option.None<T>()
+    for (const opt of options) {
+      acc = acc.combine(opt, fn)
+    }
+    return acc
+  }
 
   /**
    * Returns true if the instance does not contain a value. Returns false otherwise.
@@ -137,8 +738,25 @@ export class Option<T> {
    * const some = Option.Some('foo')
    * some.isNone() // false
    * ```
+   *
+   * This method is a type guard, so after checking it the option is narrowed to
+   * {@link None | `None`}. `Option` is not a union type, so the option is not narrowed to
+   * {@link Some | `Some`} when the check is false. For early returns negate
+   * {@link Option.isSome | `isSome`} instead, or use {@link assertSome | `assertSome`}.
+   *
+   * ```ts
+   * if (opt.isNone()) {
+   *   return
+   * }
+   * opt.get() // compile error, opt is still Option<T>
+   *
+   * if (!opt.isSome()) {
+   *   return
+   * }
+   * opt.get() // safe
+   * ```
    */
-  isNone (): boolean {
+  isNone (): this is NoneOption<T> {
     return this.value.isAbsent()
   }
 
@@ -154,11 +772,48 @@ export class Option<T> {
    * const some = Option.Some('foo')
    * some.isSome() // true
    * ```
+   *
+   * This method is a type guard, so after checking it the option is narrowed to
+   * {@link Some | `Some`}, which allows to access the value using {@link Option.get | `get`}.
+   *
+   * ```ts
+   * const opt: Option<string> = getOption()
+   * if (opt.isSome()) {
+   *   opt.get() // safe, typed as string
+   * }
+   * opt.get() // compile error
+   *
+   * if (!opt.isSome()) {
+   *   return
+   * }
+   * opt.get() // safe, the early return narrows the rest of the block
+   * ```
    */
-  isSome (): boolean {
+  isSome (): this is SomeOption<T> {
     return this.value.isPresent()
   }
 
+  /**
+   * Returns the value contained in an option that is known to be Some.
+   *
+   * Unlike {@link Option.unwrap | `unwrap`}, this method can only be called over
+   * options narrowed to {@link Some | `Some`}, so it's checked at compile time that
+   * the value is present.
+   *
+   * @returns The value contained in the option.
+   *
+   * @example
+   * ```ts
+   * const opt = Option.Some('foo')
+   * if (opt.isSome()) {
+   *   opt.get() // 'foo'
+   * }
+   * ```
+   */
+  get (this: SomeOption<T>): T {
+    return this.value.unwrap()
+  }
+
 
   /**
    * Transforms the value contained in the Option instance using the provided mapping function.
@@ -179,7 +834,9 @@ export class Option<T> {
    * ```
    */
   map<M> (fn: Transformation<T, M>): Option<M> {
-    return this.value.map(fn)
+    const output = this.value.map(fn)
+    hooks.operation('map', this, output)
+    return output
   }
 
   /**
@@ -197,14 +854,14 @@ export class Option<T> {
    * alternative that allows for more expressive errors.
    *
    * @returns The value contained in the Option instance.
-   * @throws If the Option instance does not contain a value.
+   * @throws {@link UnwrapNoneError | `UnwrapNoneError`} If the Option instance does not contain a value.
    *
    * @example
    * ```ts
    * const some = Option.Some('foo')
    * some.unwrap() // 'foo'
    * const none = Option.None()
-   * none.unwrap() // throws Error
+   * none.unwrap() // throws UnwrapNoneError
    * ```
    */
   unwrap (): T {
@@ -264,6 +921,8 @@ export class Option<T> {
    *   applied to the value, it returns a new Option without a value (None).
    *
    * @param fn - The predicate function used to filter.
+   * @param reason - Optional explanation recorded in the provenance of the None returned when the
+   * predicate fails. Only used when provenance tracking is enabled.
    * @returns A new Option with the value if the predicate function returns true,
    * otherwise an Option without a value.
    *
@@ -274,9 +933,20 @@ export class Option<T> {
    * const opt2 = Option.None<number>()
    * const newOpt2 = opt2.filter(value => value > 3) // None
    * ```
+   *
+   * If the predicate is a type guard, the resulting option is narrowed to the guarded type:
+   *
+   * ```ts
+   * const opt: Option<string | number> = Option.Some(10)
+   * const numOpt: Option<number> = opt.filter((v): v is number => typeof v === 'number')
+   * ```
    */
-  filter (fn: Predicate<T>): Option<T> {
-    return this.value.filter(fn)
+  filter<S extends T> (fn: (t: T) => t is S, reason?: string): Option<S>
+  filter (fn: Predicate<T>, reason?: string): Option<T>
+  filter (fn: Predicate<T>, reason?: string): Option<T> {
+    const output = this.value.filter(fn, reason)
+    hooks.operation('filter', this, output)
+    return output
   }
 
   /**
@@ -284,9 +954,20 @@ export class Option<T> {
    *
    * This is the right method to use when you an error should be raised if the optional is empty.
    *
-   * @param err - The error to throw if the Option instance does not contain a value.
+   * The error can be described in many ways:
+   * - An error instance, that is thrown as is.
+   * - A message, used to create an {@link UnwrapNoneError | `UnwrapNoneError`}. Error options
+   *   like `cause` can be passed as second argument. If they do not have a cause, the cause
+   *   given to {@link Option.None | `Option.None`} is used.
+   * - A function that creates the error. It receives the cause recorded in the None.
+   * - An error class followed by the arguments for its constructor.
+   *
+   * Except for error instances, the error is only created if the option is None.
+   *
+   * @param source - Description of the error to throw if the Option instance does not contain a value.
+   * @param args - Error options when the source is a message, or constructor arguments when it's a class.
    * @returns The value contained in the Option instance.
-   * @throws The provided error if the Option instance does not contain a value.
+   * @throws The described error if the Option instance does not contain a value.
    *
    * @example
    * ```ts
@@ -294,17 +975,25 @@ export class Option<T> {
    * some.expect(new Error('No value')) // 'foo'
    * const none = Option.None()
    * none.expect(new Error('No value')) // throws Error: 'No value'
+   * none.expect('No value') // throws UnwrapNoneError: 'No value'
+   * none.expect('No value', { cause: previousError }) // throws UnwrapNoneError with cause
+   * none.expect(() => new NotFoundError('user')) // throws NotFoundError
+   * none.expect(NotFoundError, 'user') // throws new NotFoundError('user')
    * ```
    */
-  expect (err: Error): T {
-    return this.value.expect(err)
+  expect (source: Error | ErrorFactory): T
+  expect (message: string, options?: ErrorOptions): T
+  expect<A extends unknown[]> (errorClass: ErrorClass<A>, ...args: A): T
+  expect (source: ErrorSource | ErrorClass<unknown[]>, ...args: unknown[]): T {
+    return this.value.expect(cause => buildError(source, args, cause))
   }
 
   /**
    * Flattens nested options.
    * An `Option<Option<T>>` returns an `Option<T>` with the same value inside (or no value in case of None).
    *
-   * In case the option is not nested, it returns the same option.
+   * In case the option is not nested, it returns the same option. When `validateCallbacks` is
+   * enabled with {@link Option.configure | `Option.configure`}, it throws instead.
    *
    * There is a type safer alternative to this method as an exported function {@link flatten}
    *
@@ -340,7 +1029,7 @@ export class Option<T> {
    * ```
    */
   mapOr<U> (defaultValue: U, mapFn: Transformation<T, U>): U {
-    return this.map(mapFn).unwrapOr(defaultValue)
+    return this.value.map(mapFn).unwrapOr(defaultValue)
   }
 
   /**
@@ -363,7 +1052,30 @@ export class Option<T> {
    * ```
    */
   mapOrElse<U> (defFn: () => U, mapFn: Transformation<T, U>): U {
-    return this.map(mapFn).unwrapOrElse(defFn)
+    return this.value.map(mapFn).unwrapOrElse(defFn)
+  }
+
+  /**
+   * Matches over the variants of the option. If the instance is Some, the `some` branch is
+   * executed with the contained value. If the instance is None, the `none` branch is executed.
+   *
+   * Both branches are required at compile time. It's equivalent to
+   * {@link Option.mapOrElse | `mapOrElse`}, but reads in the natural order.
+   *
+   * @param matcher - Object with a function for each variant.
+   * @typeParam R - The type returned by both branches.
+   * @returns The result of the executed branch.
+   *
+   * @example
+   * ```ts
+   * const some = Option.Some(5)
+   * some.match({ some: n => n * 2, none: () => 0 }) // 10
+   * const none = Option.None<number>()
+   * none.match({ some: n => n * 2, none: () => 0 }) // 0
+   * ```
+   */
+  match<R> (matcher: OptionMatcher<T, R>): R {
+    return this.mapOrElse(matcher.none, matcher.some)
   }
 
   /**
@@ -383,8 +1095,8 @@ export class Option<T> {
    * const result2 = some1.zip(none) // None
    * ```
    */
-  zip<U> (another: Option<U>): Option<[T, U]> {
-    return this.value.zip(another.value)
+  zip<U> (another: ReadonlyOption<U>): Option<[T, U]> {
+    return this.value.zip(Option.inner(another))
   }
 
 
@@ -410,9 +1122,19 @@ export class Option<T> {
    * const none = Option.None()
    * const result2 = some1.zipWith(none, (a, b) => a + b) // None
    * ```
+   *
+   * Any number of options can be combined, as long as the transformation is the last argument:
+   *
+   * ```ts
+   * const res = Option.Some(1).zipWith(Option.Some(2), Option.Some(3), (a, b, c) => a + b + c) // Some(6)
+   * ```
    */
-  zipWith<U, V> (another: Option<U>, zipWithFn: ZipTransformation<T, U, V>): Option<V> {
-    return this.zip(another).map(([t, u]) => zipWithFn(t, u))
+  zipWith<U, V> (another: ReadonlyOption<U>, zipWithFn: ZipTransformation<T, U, V>): Option<V>
+  zipWith<U extends unknown[], V> (...args: [...OptionTuple<U>, (t: T, ...rest: U) => V]): Option<V>
+  zipWith (...args: unknown[]): Option<unknown> {
+    const zipWithFn = args[args.length - 1] as (...values: unknown[]) => unknown
+    const others = args.slice(0, -1) as Option<unknown>[]
+    return Option.zipAll(this, ...others).value.map(values => zipWithFn(...values))
   }
 
   /**
@@ -436,6 +1158,8 @@ export class Option<T> {
    * const result3 = some.and(none) // None
    * ```
    */
+  and<V> (another: Option<V>): Option<V>
+  and<V> (another: ReadonlyOption<V>): ReadonlyOption<V>
   and<V> (another: Option<V>): Option<V> {
     return this.value.and(another)
   }
@@ -463,7 +1187,9 @@ export class Option<T> {
    * const result4 = none.or(none) // None
    * ```
    */
-  or (another: Option<T>): Option<T> {
+  or (this: Option<T>, another: Option<T>): Option<T>
+  or (another: ReadonlyOption<T>): ReadonlyOption<T>
+  or (another: ReadonlyOption<T>): ReadonlyOption<T> {
     return this.value.or(this, another)
   }
 
@@ -489,8 +1215,8 @@ export class Option<T> {
    * const result4 = none.xor(none) // None
    * ```
    */
-  xor (another: Option<T>): Option<T> {
-    return this.value.xor(another.value)
+  xor (another: ReadonlyOption<T>): Option<T> {
+    return this.value.xor(Option.inner(another))
   }
 
   /**
@@ -512,7 +1238,9 @@ export class Option<T> {
    * ```
    */
   andThen<U> (fn: TransformToOption<T, U>): Option<U> {
-    return this.value.andThen(fn)
+    const output = this.value.andThen(fn)
+    hooks.operation('andThen', this, output)
+    return output
   }
 
   /**
@@ -532,128 +1260,363 @@ export class Option<T> {
    * const result3 = none.orElse(() => Option.None()) // None
    * ```
    */
-  orElse (fn: GenerateOption<T>): Option<T> {
-    return this.value.orElse(fn)
+  orElse (fn: GenerateOption<T>): Option<T> {
+    return this.value.orElse(fn)
+  }
+
+  /**
+   * Inserts a value into the Option instance, replacing the current value if it exists.
+   *
+   * @param value - The value to be inserted into the Option instance.
+   * @returns The Option instance itself.
+   *
+   * @throws If the option was frozen with {@link Option.freeze | `freeze`}.
+   *
+   * @example
+   * ```ts
+   * const none = Option.None()
+   * none.insert('foo') // Some('foo')
+   * const some = Option.Some('bar')
+   * some.insert('foo') // Some('foo')
+   * ```
+   */
+  insert (value: T): Option<T> {
+    this.assertMutable()
+    this.value = new Some(value)
+    return this
+  }
+
+  /**
+   * If the instance contains a value returns that value.
+   * If the instance is empty it inserts the value provided by argument, and returns the value.
+   *
+   * Notice that if the instance already had a value this method does not replace it and the
+   * argument is ignored.
+   *
+   * @param value - The value to be inserted and returned if the instance is None.
+   * @returns The value contained in the Option instance after the operation.
+   *
+   * @throws If the option was frozen with {@link Option.freeze | `freeze`}.
+   *
+   * @example
+   * ```ts
+   * const opt1 = Option.None()
+   * opt1.getOrInsert('foo') // 'foo'
+   * opt1.isPresent() // true
+   *
+   * const opt2 = Option.Some('bar')
+   * opt2.getOrInsert('foo') // 'bar'
+   * ```
+   */
+  getOrInsert (value: T): T {
+    this.assertMutable()
+    this.value = this.value.getOrInsert(value)
+    return this.unwrap()
+  }
+
+  /**
+   * Similar to {@link Option.insert | `insert` } but allowing the inserted value to be calculated
+   * lazily.
+   *
+   * If the instance is Some the value inside the option is present and the generator
+   * function is ignored.
+   *
+   * If the instance is None, the provided function is called, and the result is inserted
+   * into the instance and returned.
+   *
+   * @param fn - Function to generate the value to insert and return in case of none.
+   * @returns The value contained in the Option instance after the operation.
+   *
+   * @throws If the option was frozen with {@link Option.freeze | `freeze`}.
+   *
+   * @example
+   * ```ts
+   * const opt1 = Option.None()
+   * opt1.getOrInsertWith(() => 'foo') // 'foo'
+   * opt1.isPresent() // true
+   *
+   * const opt2 = Option.Some('bar')
+   * opt2.getOrInsertWith(() => 'foo') // 'bar'
+   * ```
+   */
+  getOrInsertWith (fn: Generator<T>): T {
+    this.assertMutable()
+    this.value = this.value.getOrInsertWith(fn)
+    return this.unwrap()
+  }
+
+  /**
+   * Takes the value inside the instance and returned inside a new Option.
+   *
+   * If the instance is Some, it gets transformed into None
+   *
+   * If the instance is None, it gets unnafected and theresult is None.
+   *
+   * @returns A new Option instance containing the value originally
+   * contained in the Option instance.
+   *
+   * @throws If the option was frozen with {@link Option.freeze | `freeze`}.
+   *
+   * @example
+   * ```ts
+   * const opt1 = Option.Some('foo')
+   * const taken = opt1.take() // Some('foo')
+   * opt1.isNone() // true
+   * const none = Option.None()
+   * const takenFromNone = none.take() // None
+   * none.isNone() // true
+   * ```
+   */
+  take (): Option<T> {
+    this.assertMutable()
+    const takeValue = this.value.takeValue()
+    this.value = new None(capture('take'))
+    return takeValue
+  }
+
+  /**
+   * Replaces the contained value of an option with the one provided as argument.
+   *
+   * @param newValue - The new value to be inserted into the Option instance.
+   * @returns A new Option instance containing the old value.
+   *
+   * @throws If the option was frozen with {@link Option.freeze | `freeze`}.
+   *
+   * @example
+   * ```ts
+   * const opt1 = Option.Some('foo')
+   * const oldSome = opt1.replace('bar') // Some('foo')
+   * opt1.unwrap() // 'bar'
+   * const opt2 = Option.None()
+   * const oldNone = opt2.replace('foo') // None
+   * opt2.unwrap() // 'foo'
+   * ```
+   */
+  replace (newValue: T): Option<T> {
+    this.assertMutable()
+    const oldValue = this.value
+    this.value = new Some(newValue)
+    return new Option<T>(oldValue)
+  }
+
+  /**
+   * Replaces the contained value with the result of the given function, modifying the
+   * option in place. If the option is None nothing happens and the function is not called.
+   *
+   * @param fn - Function that receives the current value and returns the new one.
+   * @returns The Option instance itself.
+   * @throws If the option was frozen with {@link Option.freeze | `freeze`}.
+   *
+   * @example
+   * ```ts
+   * const counter = Option.Some(1)
+   * counter.update(n => n + 1)
+   * counter // Some(2)
+   *
+   * const none = Option.None<number>()
+   * none.update(n => n + 1) // None
+   * ```
+   */
+  update (fn: Transformation<T, T>): Option<T> {
+    this.assertMutable()
+    this.value = this.value.map(fn).value
+    return this
+  }
+
+  /**
+   * Returns a reference-like handle to the contained value, equivalent to rust's `as_mut`.
+   * Setting a value through the handle modifies this option in place.
+   *
+   * @returns Some with a handle to the value, or None if the option is None.
+   *
+   * @example
+   * ```ts
+   * const opt = Option.Some('foo')
+   * opt.asMut().ifSome(ref => ref.set(ref.get() + 'bar'))
+   * opt // Some('foobar')
+   * ```
+   */
+  asMut (): Option<MutRef<T>> {
+    return this.value.map(() => ({
+      get: () => this.unwrap(),
+      set: (value: T) => {
+        this.insert(value)
+      }
+    }))
+  }
+
+  /**
+   * Returns an independent copy of the option, where the contained value is copied too.
+   * By default the value is deep copied with `structuredClone`, a custom copy function
+   * can be provided for values that cannot be cloned that way, like class instances.
+   *
+   * @param cloneFn - Function used to copy the value.
+   * @returns A new option with a copy of the value.
+   *
+   * @example
+   * ```ts
+   * const original = Option.Some({tags: ['a']})
+   * const copy = original.cloned()
+   * copy.unwrap().tags.push('b')
+   * original // Some({tags: ['a']})
+   * ```
+   */
+  cloned (cloneFn: Transformation<T, T> = structuredClone): Option<T> {
+    return this.value.map(cloneFn)
   }
 
   /**
-   * Inserts a value into the Option instance, replacing the current value if it exists.
+   * Returns the same instance typed as {@link ReadonlyOption | `ReadonlyOption`}, which
+   * does not expose the methods that mutate the option. This is only a compile time
+   * restriction, use {@link Option.freeze | `freeze`} to also forbid mutations at runtime.
    *
-   * @param value - The value to be inserted into the Option instance.
-   * @returns The Option instance itself.
+   * @returns The same instance, typed as read only.
    *
    * @example
    * ```ts
-   * const none = Option.None()
-   * none.insert('foo') // Some('foo')
-   * const some = Option.Some('bar')
-   * some.insert('foo') // Some('foo')
+   * const opt = Option.Some('foo').asReadonly()
+   * opt.map(s => s.length) // Some(3)
+   * opt.take() // compile error
    * ```
    */
-  insert (value: T): Option<T> {
-    this.value = new Some(value)
+  asReadonly (): ReadonlyOption<T> {
     return this
   }
 
   /**
-   * If the instance contains a value returns that value.
-   * If the instance is empty it inserts the value provided by argument, and returns the value.
+   * Forbids any further mutation of the option. After calling this method `insert`, `take`,
+   * `replace`, `getOrInsert` and `getOrInsertWith` throw an error. The rest of the methods
+   * keep working as usual.
    *
-   * Notice that if the instance already had a value this method does not replace it and the
-   * argument is ignored.
+   * The instance is modified in place, like with `Object.freeze`.
    *
-   * @param value - The value to be inserted and returned if the instance is None.
-   * @returns The value contained in the Option instance after the operation.
+   * @returns The same instance, typed as read only.
    *
    * @example
    * ```ts
-   * const opt1 = Option.None()
-   * opt1.getOrInsert('foo') // 'foo'
-   * opt1.isPresent() // true
+   * const opt = Option.Some('foo')
+   * opt.freeze()
+   * opt.take() // throws Error
+   * opt.unwrap() // 'foo'
+   * ```
+   */
+  freeze (): ReadonlyOption<T> {
+    return Object.freeze(this)
+  }
+
+  /**
+   * Returns true if the option was frozen with {@link Option.freeze | `freeze`}.
    *
-   * const opt2 = Option.Some('bar')
-   * opt2.getOrInsert('foo') // 'bar'
+   * @example
+   * ```ts
+   * const opt = Option.Some('foo')
+   * opt.isFrozen() // false
+   * opt.freeze().isFrozen() // true
    * ```
    */
-  getOrInsert (value: T): T {
-    this.value = this.value.getOrInsert(value)
-    return this.unwrap()
+  isFrozen (): boolean {
+    return Object.isFrozen(this)
   }
 
   /**
-   * Similar to {@link Option.insert | `insert` } but allowing the inserted value to be calculated
-   * lazily.
+   * Brand used by {@link Option.isOption | `Option.isOption`}.
    *
-   * If the instance is Some the value inside the option is present and the generator
-   * function is ignored.
+   * @hidden
+   */
+  get [optionSymbol] (): true {
+    return true
+  }
+
+  /**
+   * Enables runtime checks that detect common misuses of options:
    *
-   * If the instance is None, the provided function is called, and the result is inserted
-   * into the instance and returned.
+   * - `someNullish`: what to do when {@link Option.Some | `Option.Some`} receives `null` or
+   *   `undefined`. It can be `allow` (default), `warn` or `throw`.
+   * - `validateCallbacks`: when true, the functions given to {@link Option.andThen | `andThen`}
+   *   and {@link Option.orElse | `orElse`} must return options, and {@link Option.flatten | `flatten`}
+   *   must be called over an option of options.
    *
-   * @param fn - Function to generate the value to insert and return in case of none.
-   * @returns The value contained in the Option instance after the operation.
+   * Broken contracts throw {@link OptionContractError | `OptionContractError`}. Every check is
+   * disabled by default, and a disabled check only costs a flag comparison. To keep them out
+   * of production, call `configure` behind a condition that the bundler can remove, like
+   * `process.env.NODE_ENV !== 'production'`.
+   *
+   * Only the given settings are changed.
+   *
+   * @param config - Settings to change.
    *
    * @example
    * ```ts
-   * const opt1 = Option.None()
-   * opt1.getOrInsertWith(() => 'foo') // 'foo'
-   * opt1.isPresent() // true
+   * if (process.env.NODE_ENV !== 'production') {
+   *   Option.configure({ someNullish: 'throw', validateCallbacks: true })
+   * }
    *
-   * const opt2 = Option.Some('bar')
-   * opt2.getOrInsertWith(() => 'foo') // 'bar'
+   * Option.Some(undefined) // throws OptionContractError
+   * Option.Some(1).andThen(n => n + 1) // throws OptionContractError
    * ```
    */
-  getOrInsertWith (fn: Generator<T>): T {
-    this.value = this.value.getOrInsertWith(fn)
-    return this.unwrap()
+  static configure (config: OptionConfig): void {
+    configure(config)
   }
 
   /**
-   * Takes the value inside the instance and returned inside a new Option.
+   * Registry of instrumentation hooks. Handlers registered there are called when
+   * {@link Option.unwrap | `unwrap`} or {@link Option.expect | `expect`} fail, and after every
+   * {@link Option.map | `map`}, {@link Option.filter | `filter`} and {@link Option.andThen | `andThen`}.
    *
-   * If the instance is Some, it gets transformed into None
+   * Handlers can be registered globally or only while a function runs, so tests can install
+   * them without leaking to other tests.
    *
-   * If the instance is None, it gets unnafected and theresult is None.
+   * @example
+   * ```ts
+   * Option.hooks.onUnwrapNone(error => metrics.increment('unwrap_none'))
    *
-   * @returns A new Option instance containing the value originally
-   * contained in the Option instance.
+   * Option.hooks.scoped({ onExpectFail: () => failures++ }, () => {
+   *   runTheCodeUnderTest()
+   * })
+   * ```
+   */
+  static readonly hooks: HookRegistry = hooks
+
+  /**
+   * Enables or disables provenance tracking. While it's enabled, every None records the
+   * operation that created it, an optional reason and a stack trace. The provenance is
+   * kept through operations like `map`, `andThen` or `zip`, and it's included in the
+   * error thrown by {@link Option.unwrap | `unwrap`}.
+   *
+   * Tracking is disabled by default. It's meant for debugging, because capturing stack
+   * traces is expensive.
+   *
+   * @param enabled - true to enable tracking, false to disable it.
    *
    * @example
    * ```ts
-   * const opt1 = Option.Some('foo')
-   * const taken = opt1.take() // Some('foo')
-   * opt1.isNone() // true
-   * const none = Option.None()
-   * const takenFromNone = none.take() // None
-   * none.isNone() // true
+   * Option.trackProvenance()
+   * Option.Some(-1).filter(n => n > 0, 'must be positive').map(n => n * 2).unwrap()
+   * // throws UnwrapNoneError: unwrap over None.
+   * // None created by filter: must be positive
+   * //     at ...
    * ```
    */
-  take (): Option<T> {
-    const takeValue = this.value.takeValue()
-    this.value = new None()
-    return takeValue
+  static trackProvenance (enabled = true): void {
+    setTracking(enabled)
   }
 
   /**
-   * Replaces the contained value of an option with the one provided as argument.
+   * Returns where the value of a None came from. It's only available for options created
+   * while provenance tracking was enabled with {@link Option.trackProvenance | `trackProvenance`}.
    *
-   * @param newValue - The new value to be inserted into the Option instance.
-   * @returns A new Option instance containing the old value.
+   * @returns Some with the provenance for tracked None instances, None otherwise.
    *
    * @example
    * ```ts
-   * const opt1 = Option.Some('foo')
-   * const oldSome = opt1.replace('bar') // Some('foo')
-   * opt1.unwrap() // 'bar'
-   * const opt2 = Option.None()
-   * const oldNone = opt2.replace('foo') // None
-   * opt2.unwrap() // 'foo'
+   * Option.trackProvenance()
+   * Option.fromNullable(null).provenance() // Some({ operation: 'fromNullable', ... })
+   * Option.Some(1).provenance() // None
    * ```
    */
-  replace (newValue: T): Option<T> {
-    const oldValue = this.value
-    this.value = new Some(newValue)
-    return new Option<T>(oldValue)
+  provenance (): Option<Provenance> {
+    return this.value.provenance()
   }
 
   /**
@@ -680,7 +1643,13 @@ export class Option<T> {
    * const none = Option.None<number>()
    * const result2 = none.isSomeAnd(value => value > 3) // false
    * ```
+   *
+   * This method is a type guard. When it returns true the option is narrowed to
+   * {@link Some | `Some`}. If the predicate is a type guard too, the contained type gets
+   * narrowed as well.
    */
+  isSomeAnd<S extends T> (andFn: (t: T) => t is S): this is SomeOption<S>
+  isSomeAnd (andFn: Predicate<T>): this is SomeOption<T>
   isSomeAnd (andFn: Predicate<T>): boolean {
     return this.value.isSomeAnd(andFn)
   }
@@ -742,6 +1711,8 @@ export class Option<T> {
    * res2 === none // true
    * ```
    */
+  ifSome (this: Option<T>, fn: (t: T) => void): Option<T>
+  ifSome (this: ReadonlyOption<T>, fn: (t: T) => void): ReadonlyOption<T>
   ifSome (fn: (t: T) => void): Option<T> {
     this.value.ifSome(fn)
     return this
@@ -774,6 +1745,8 @@ export class Option<T> {
    * none.ifNone(() => console.log('No value')) // logs 'No value' to the console
    * ```
    */
+  ifNone (this: Option<T>, fn: () => void): Option<T>
+  ifNone (this: ReadonlyOption<T>, fn: () => void): ReadonlyOption<T>
   ifNone (fn: () => void): Option<T> {
     this.value.ifNone(fn)
     return this
@@ -824,7 +1797,7 @@ export class Option<T> {
    * ```
    */
   takeIf (param: Predicate<T>): Option<T> {
-    return this.filter(param).andThen(() => this.take())
+    return this.value.filter(param).value.andThen(() => this.take())
   }
 
   /**
@@ -861,8 +1834,8 @@ export class Option<T> {
    * Option.Some('bar').equals(Option.Some('bar')) // true
    * ```
    */
-  equals (another: Option<T>): boolean {
-    return this.value.equalsWith(another.value, (a, b) => a === b)
+  equals (another: ReadonlyOption<T>): boolean {
+    return this.value.equalsWith(Option.inner(another), (a, b) => a === b)
   }
 
   /**
@@ -886,7 +1859,338 @@ export class Option<T> {
    * Option.Some(7).equalsWith(Option.Some(15), (a, b) => a % 5 === b % 5) // false
    * ```
    */
-  equalsWith (another: Option<T>, equality: AreEqual<T>): boolean {
-    return this.value.equalsWith(another.value, equality)
+  equalsWith (another: ReadonlyOption<T>, equality: AreEqual<T>): boolean {
+    return this.value.equalsWith(Option.inner(another), equality)
+  }
+
+  /**
+   * Returns true if both optionals are None, or if both are Some and their values are
+   * structurally equal. Arrays, plain objects, Maps, Sets, Dates and nested options are
+   * compared by content, and values implementing {@link Equatable | `Equatable`}
+   * are compared with their own method. Cyclic values are supported.
+   *
+   * See {@link deepEqual | `deepEqual`} for the exact rules.
+   *
+   * @param another - Another optional to compare with this
+   *
+   * @example
+   * ```ts
+   * Option.Some({id: 1}).equals(Option.Some({id: 1})) // false
+   * Option.Some({id: 1}).equalsDeep(Option.Some({id: 1})) // true
+   * Option.Some([Option.Some(1)]).equalsDeep(Option.Some([Option.Some(1)])) // true
+   * Option.None().equalsDeep(Option.None()) // true
+   * ```
+   */
+  equalsDeep (another: ReadonlyOption<T>): boolean {
+    return this.value.equalsWith(Option.inner(another), deepEqual)
+  }
+
+  /**
+   * Merges the option with another one, treating None as identity. If both are Some, the
+   * values are merged using the given function. If only one of them is Some, a new option with
+   * its value is returned. If both are None, returns None. The result is always a new option.
+   *
+   * This is the equivalent of rust's `Option::reduce`.
+   *
+   * @param another - Another optional to combine with this
+   * @param fn - Function used to combine both values. The library ships many common ones in `semigroups`.
+   * @returns The combined option.
+   *
+   * @example
+   * ```ts
+   * Option.Some(1).combine(Option.Some(2), semigroups.sum) // Some(3)
+   * Option.Some(1).combine(Option.None(), semigroups.sum) // Some(1)
+   * Option.None().combine(Option.Some([1]), semigroups.concatArrays) // Some([1])
+   * Option.None<string>().combine(Option.None(), semigroups.concatStrings) // None
+   * ```
+   */
+  combine (another: ReadonlyOption<T>, fn: Semigroup<T>): Option<T> {
+    return this.zipWith(another, fn).orElse(() => Option.inner(this.or(another)).map(value => value))
+  }
+
+  /**
+   * Compares the option with another one. Following rust, None is less than any Some,
+   * and two Somes are compared using their values.
+   *
+   * @param another - Another optional to compare with this
+   * @param cmp - Comparator for the values. By default values are compared with `<` and `>`.
+   * @returns Negative if this is less than the other option, positive if it's greater and 0 if both are equivalent.
+   *
+   * @example
+   * ```ts
+   * Option.None().compare(Option.None()) // 0
+   * Option.None().compare(Option.Some(1)) // -1
+   * Option.Some(1).compare(Option.None()) // 1
+   * Option.Some(1).compare(Option.Some(2)) // -1
+   * Option.Some('b').compare(Option.Some('a'), (a, b) => a.localeCompare(b)) // 1
+   * ```
+   */
+  compare (another: ReadonlyOption<T>, cmp: Comparator<T> = naturalOrder): number {
+    return this.value.compareWith(Option.inner(another), cmp)
+  }
+
+  /**
+   * Returns the lesser of both options, using the same ordering than
+   * {@link Option.compare | `compare`}. Because None is less than any Some, if any of
+   * the options is None the result is None. If both are equivalent returns a copy of this.
+   *
+   * @param another - Another optional to compare with this
+   * @param cmp - Comparator for the values. By default values are compared with `<` and `>`.
+   * @returns A new option with the lesser value.
+   *
+   * @example
+   * ```ts
+   * Option.Some(1).min(Option.Some(2)) // Some(1)
+   * Option.Some(1).min(Option.None()) // None
+   * ```
+   */
+  min (another: ReadonlyOption<T>, cmp: Comparator<T> = naturalOrder): Option<T> {
+    return Option.inner(this.compare(another, cmp) <= 0 ? this : another).map(value => value)
+  }
+
+  /**
+   * Returns the greater of both options, using the same ordering than
+   * {@link Option.compare | `compare`}. Because None is less than any Some, if any of
+   * the options is Some the result is Some. If both are equivalent returns a copy of the other option.
+   *
+   * @param another - Another optional to compare with this
+   * @param cmp - Comparator for the values. By default values are compared with `<` and `>`.
+   * @returns A new option with the greater value.
+   *
+   * @example
+   * ```ts
+   * Option.Some(1).max(Option.Some(2)) // Some(2)
+   * Option.Some(1).max(Option.None()) // Some(1)
+   * ```
+   */
+  max (another: ReadonlyOption<T>, cmp: Comparator<T> = naturalOrder): Option<T> {
+    return Option.inner(this.compare(another, cmp) > 0 ? this : another).map(value => value)
+  }
+
+  /**
+   * Restricts the contained value to the given interval. If the value is less than `min`
+   * returns Some(min), if it's greater than `max` returns Some(max). Otherwise, the value
+   * is kept. None stays None.
+   *
+   * @param min - Lower bound of the interval.
+   * @param max - Upper bound of the interval.
+   * @param cmp - Comparator for the values. By default values are compared with `<` and `>`.
+   * @throws If `min` is greater than `max`.
+   * @returns An option with the clamped value.
+   *
+   * @example
+   * ```ts
+   * Option.Some(10).clamp(1, 5) // Some(5)
+   * Option.Some(0).clamp(1, 5) // Some(1)
+   * Option.Some(3).clamp(1, 5) // Some(3)
+   * Option.None<number>().clamp(1, 5) // None
+   * ```
+   */
+  clamp (min: T, max: T, cmp: Comparator<T> = naturalOrder): Option<T> {
+    if (cmp(min, max) > 0) {
+      throw new Error('clamp requires min to be less than or equal to max.')
+    }
+    return this.value.map(value => {
+      if (cmp(value, min) < 0) {
+        return min
+      }
+      return cmp(value, max) > 0 ? max : value
+    })
+  }
+
+  /**
+   * Converts the option into a {@link Result | `Result`}. Some values are
+   * transformed into Ok, and None is transformed into Err with the provided error.
+   *
+   * The error is evaluated eagerly. If the error is expensive to build,
+   * {@link Option.okOrElse | `okOrElse`} is a better alternative.
+   *
+   * @param err - Error used in case of None.
+   * @typeParam E - Type of the error.
+   * @returns Ok with the contained value, or Err with the given error.
+   *
+   * @example
+   * ```ts
+   * Option.Some(10).okOr('missing') // Ok(10)
+   * Option.None().okOr('missing') // Err('missing')
+   * ```
+   */
+  okOr<E> (err: E): Result<T, E> {
+    return this.value.okOr(err)
+  }
+
+  /**
+   * Similar to {@link Option.okOr | `okOr`} but the error is generated lazily.
+   * The provided function is only called if the option is None.
+   *
+   * @param fn - Function to generate the error in case of None.
+   * @typeParam E - Type of the error.
+   * @returns Ok with the contained value, or Err with the generated error.
+   *
+   * @example
+   * ```ts
+   * Option.Some(10).okOrElse(() => new Error('missing')) // Ok(10)
+   * Option.None().okOrElse(() => new Error('missing')) // Err(Error('missing'))
+   * ```
+   */
+  okOrElse<E> (fn: Generator<E>): Result<T, E> {
+    return this.value.okOrElse(fn)
+  }
+
+  /**
+   * Converts the option into an {@link AsyncOption | `AsyncOption`}, allowing to chain
+   * async operations over it.
+   *
+   * @returns An AsyncOption that resolves to this option.
+   *
+   * @example
+   * ```ts
+   * const opt = await Option.Some(1).toAsync().mapAsync(async n => n + 1) // Some(2)
+   * ```
+   */
+  toAsync (): AsyncOption<T> {
+    return AsyncOption.fromOption(this)
+  }
+
+  /**
+   * Transforms an option of a promise into a promise of an option.
+   *
+   * - None resolves to None.
+   * - Some(promise) resolves to Some with the value of the promise. If the promise
+   *   rejects, the returned promise rejects too.
+   *
+   * In case the option does not contain a promise, the value is wrapped into a resolved promise.
+   *
+   * @returns A promise of an option with the resolved value.
+   *
+   * @example
+   * ```ts
+   * await Option.Some(Promise.resolve(10)).transposePromise() // Some(10)
+   * await Option.None<Promise<number>>().transposePromise() // None
+   * ```
+   */
+  transposePromise (): Promise<Option<Awaited<T>>> {
+    return this.mapOrElse(
+      async () => Option.None<Awaited<T>>(),
+      async t => someUnchecked(await t)
+    )
+  }
+
+  /**
+   * Converts the option into a promise. Some resolves to the contained value, None
+   * rejects with the given error.
+   *
+   * @param err - Error used to reject the promise if the instance is None.
+   * @returns A promise with the contained value.
+   *
+   * @example
+   * ```ts
+   * await Option.Some('foo').toPromise(new Error('No value')) // 'foo'
+   * await Option.None().toPromise(new Error('No value')) // rejects with Error: 'No value'
+   * ```
+   */
+  toPromise (err: Error): Promise<T> {
+    return this.mapOrElse(
+      () => Promise.reject(err),
+      t => Promise.resolve(t)
+    )
+  }
+
+  /**
+   * Makes options iterable. Some produces its value once, None produces nothing. This
+   * allows to use options in `for..of` loops, spread them or destructure them without
+   * allocating an array like {@link Option.toArray | `toArray`} does.
+   *
+   * Inside generators, `yield*` over an option yields its value if some, or nothing if none.
+   *
+   * @returns An iterator over the content of the option.
+   *
+   * @example
+   * ```ts
+   * for (const value of Option.Some('foo')) {
+   *   console.log(value) // logs 'foo'
+   * }
+   * [...Option.Some(1), ...Option.None(), ...Option.Some(3)] // [1, 3]
+   * ```
+   */
+  [Symbol.iterator] (): Iterator<T, undefined, unknown> {
+    return new OptionIterator(this)
+  }
+
+  /**
+   * Implements the {@link Hashable | `Hashable`} protocol. The hash code is consistent with
+   * {@link Option.equals | `equals`}: all Nones have the same hash code, and Somes with
+   * the same value have the same hash code. This allows to use options as keys
+   * of {@link OptionKeyedMap | `OptionKeyedMap`} and {@link OptionKeyedSet | `OptionKeyedSet`}.
+   *
+   * @returns The hash code of the option.
+   *
+   * @example
+   * ```ts
+   * hashValue(Option.Some(1)) === hashValue(Option.Some(1)) // true
+   * hashValue(Option.None()) === hashValue(Option.None()) // true
+   * ```
+   */
+  [hashSymbol] (): number {
+    return this.mapOrElse(
+      () => NONE_HASH,
+      value => combineHashes(SOME_HASH, hashValue(value))
+    )
   }
+
+  /**
+   * Encodes the option to be serialized by `JSON.stringify`. By default options are encoded
+   * using the `tagged` encoding. {@link Option.stringify | `Option.stringify`} allows to use
+   * other encodings.
+   *
+   * @returns The JSON representation of the option.
+   *
+   * @example
+   * ```ts
+   * JSON.stringify(Option.Some(1)) // '{"$option":"some","value":1}'
+   * JSON.stringify(Option.None()) // '{"$option":"none"}'
+   * ```
+   */
+  toJSON (): unknown {
+    return encodeOption(this)
+  }
+
+  /**
+   * @hidden
+   * @private
+   */
+  private static inner<T> (opt: ReadonlyOption<T>): OptionalValue<T> {
+    return (opt as Option<T>).value
+  }
+
+  /**
+   * @hidden
+   * @private
+   */
+  private assertMutable (): void {
+    if (this.isFrozen()) {
+      throw new Error('Cannot mutate a frozen option.')
+    }
+  }
+}
+
+/**
+ * Creates a Some without the checks enabled with {@link Option.configure | `configure`}.
+ * Used by the library to wrap the values it handles itself. It's not exported by the
+ * entry point of the package.
+ *
+ * @hidden
+ */
+export function someUnchecked<T> (value: T): Option<T> {
+  return wrap(new Some(value))
+}
+
+/**
+ * Wraps an internal None, keeping its provenance. It's not exported by the entry point
+ * of the package.
+ *
+ * @hidden
+ */
+export function fromNone<T> (none: None<T>): Option<T> {
+  return wrap(none)
 }
@@ -1,6 +1,8 @@
 import {Option} from "./option.js"
 import {Some} from "./some.js"
-import {AreEqual, FlattenOption} from "./types.js";
+import {Result} from "./result.js"
+import {Provenance} from "./provenance.js"
+import {AreEqual, Comparator, FlattenOption, ReadonlyOption} from "./types.js";
 
 export abstract class OptionalValue<T> {
   abstract isPresent (): boolean
@@ -11,9 +13,9 @@ export abstract class OptionalValue<T> {
 
   abstract map<M> (fn: (a: T) => M): Option<M>
 
-  abstract filter (fn: (a: T) => boolean): Option<T>
+  abstract filter (fn: (a: T) => boolean, reason?: string): Option<T>
 
-  abstract expect (err: Error): T
+  abstract expect (errFn: (cause?: Error) => Error): T
 
   abstract unwrapOr (defaultValue: T): T
 
@@ -27,7 +29,7 @@ export abstract class OptionalValue<T> {
 
   abstract and<V> (another: Option<V>): Option<V>
 
-  abstract or (self: Option<T>, another: Option<T>): Option<T>
+  abstract or (self: ReadonlyOption<T>, another: ReadonlyOption<T>): ReadonlyOption<T>
 
   abstract xor (another: OptionalValue<T>): Option<T>
 
@@ -54,4 +56,12 @@ export abstract class OptionalValue<T> {
   abstract toArray (): T[]
 
   abstract equalsWith (another: OptionalValue<T>, equality: AreEqual<T>): boolean
+
+  abstract compareWith (another: OptionalValue<T>, cmp: Comparator<T>): number
+
+  abstract okOr<E> (err: E): Result<T, E>
+
+  abstract okOrElse<E> (fn: () => E): Result<T, E>
+
+  abstract provenance (): Option<Provenance>
 }
\ No newline at end of file
@@ -0,0 +1,85 @@
+/**
+ * Passes a value through a list of functions, from left to right. The result of each
+ * function is the input of the next one. Types are inferred for up to 20 functions.
+ *
+ * @param value - Initial value.
+ * @param fns - Functions to apply.
+ * @returns The result of the last function, or the value if there are no functions.
+ *
+ * @example
+ * ```ts
+ * pipe(
+ *   Option.Some(' foo '),
+ *   map(s => s.trim()),
+ *   filter(s => s.length > 0),
+ *   unwrapOr('default')
+ * ) // 'foo'
+ * ```
+ */
+export function pipe<A> (value: A): A
+export function pipe<A, B> (value: A, ab: (arg: A) => B): B
+export function pipe<A, B, C> (value: A, ab: (arg: A) => B, bc: (arg: B) => C): C
+export function pipe<A, B, C, D> (value: A, ab: (arg: A) => B, bc: (arg: B) => C, cd: (arg: C) => D): D
+export function pipe<A, B, C, D, E> (value: A, ab: (arg: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E): E
+export function pipe<A, B, C, D, E, F> (value: A, ab: (arg: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F): F
+export function pipe<A, B, C, D, E, F, G> (value: A, ab: (arg: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F, fg: (arg: F) => G): G
+export function pipe<A, B, C, D, E, F, G, H> (value: A, ab: (arg: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F, fg: (arg: F) => G, gh: (arg: G) => H): H
+export function pipe<A, B, C, D, E, F, G, H, I> (value: A, ab: (arg: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F, fg: (arg: F) => G, gh: (arg: G) => H, hi: (arg: H) => I): I
+export function pipe<A, B, C, D, E, F, G, H, I, J> (value: A, ab: (arg: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F, fg: (arg: F) => G, gh: (arg: G) => H, hi: (arg: H) => I, ij: (arg: I) => J): J
+export function pipe<A, B, C, D, E, F, G, H, I, J, K> (value: A, ab: (arg: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F, fg: (arg: F) => G, gh: (arg: G) => H, hi: (arg: H) => I, ij: (arg: I) => J, jk: (arg: J) => K): K
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L> (value: A, ab: (arg: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F, fg: (arg: F) => G, gh: (arg: G) => H, hi: (arg: H) => I, ij: (arg: I) => J, jk: (arg: J) => K, kl: (arg: K) => L): L
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M> (value: A, ab: (arg: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F, fg: (arg: F) => G, gh: (arg: G) => H, hi: (arg: H) => I, ij: (arg: I) => J, jk: (arg: J) => K, kl: (arg: K) => L, lm: (arg: L) => M): M
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N> (value: A, ab: (arg: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F, fg: (arg: F) => G, gh: (arg: G) => H, hi: (arg: H) => I, ij: (arg: I) => J, jk: (arg: J) => K, kl: (arg: K) => L, lm: (arg: L) => M, mn: (arg: M) => N): N
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O> (value: A, ab: (arg: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F, fg: (arg: F) => G, gh: (arg: G) => H, hi: (arg: H) => I, ij: (arg: I) => J, jk: (arg: J) => K, kl: (arg: K) => L, lm: (arg: L) => M, mn: (arg: M) => N, no: (arg: N) => O): O
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P> (value: A, ab: (arg: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F, fg: (arg: F) => G, gh: (arg: G) => H, hi: (arg: H) => I, ij: (arg: I) => J, jk: (arg: J) => K, kl: (arg: K) => L, lm: (arg: L) => M, mn: (arg: M) => N, no: (arg: N) => O, op: (arg: O) => P): P
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q> (value: A, ab: (arg: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F, fg: (arg: F) => G, gh: (arg: G) => H, hi: (arg: H) => I, ij: (arg: I) => J, jk: (arg: J) => K, kl: (arg: K) => L, lm: (arg: L) => M, mn: (arg: M) => N, no: (arg: N) => O, op: (arg: O) => P, pq: (arg: P) => Q): Q
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R> (value: A, ab: (arg: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F, fg: (arg: F) => G, gh: (arg: G) => H, hi: (arg: H) => I, ij: (arg: I) => J, jk: (arg: J) => K, kl: (arg: K) => L, lm: (arg: L) => M, mn: (arg: M) => N, no: (arg: N) => O, op: (arg: O) => P, pq: (arg: P) => Q, qr: (arg: Q) => R): R
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R, S> (value: A, ab: (arg: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F, fg: (arg: F) => G, gh: (arg: G) => H, hi: (arg: H) => I, ij: (arg: I) => J, jk: (arg: J) => K, kl: (arg: K) => L, lm: (arg: L) => M, mn: (arg: M) => N, no: (arg: N) => O, op: (arg: O) => P, pq: (arg: P) => Q, qr: (arg: Q) => R, rs: (arg: R) => S): S
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R, S, T> (value: A, ab: (arg: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F, fg: (arg: F) => G, gh: (arg: G) => H, hi: (arg: H) => I, ij: (arg: I) => J, jk: (arg: J) => K, kl: (arg: K) => L, lm: (arg: L) => M, mn: (arg: M) => N, no: (arg: N) => O, op: (arg: O) => P, pq: (arg: P) => Q, qr: (arg: Q) => R, rs: (arg: R) => S, st: (arg: S) => T): T
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R, S, T, U> (value: A, ab: (arg: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F, fg: (arg: F) => G, gh: (arg: G) => H, hi: (arg: H) => I, ij: (arg: I) => J, jk: (arg: J) => K, kl: (arg: K) => L, lm: (arg: L) => M, mn: (arg: M) => N, no: (arg: N) => O, op: (arg: O) => P, pq: (arg: P) => Q, qr: (arg: Q) => R, rs: (arg: R) => S, st: (arg: S) => T, tu: (arg: T) => U): U
+export function pipe (value: unknown, ...fns: ((arg: unknown) => unknown)[]): unknown {
+  return fns.reduce((acc, fn) => fn(acc), value)
+}
+
+/**
+ * Composes a list of functions from left to right into a new function. The first function
+ * can receive any number of arguments, the rest receive the result of the previous one.
+ * Types are inferred for up to 20 functions.
+ *
+ * @param ab - First function.
+ * @param fns - Rest of the functions.
+ * @returns A function that applies all the functions in order.
+ *
+ * @example
+ * ```ts
+ * const parsePort = flow(
+ *   (s: string) => Option.fromNullable(s),
+ *   map(Number),
+ *   filter(n => Number.isInteger(n) && n > 0)
+ * )
+ * ['80', 'foo'].map(parsePort) // [Some(80), None]
+ * ```
+ */
+export function flow<A extends unknown[], B> (ab: (...args: A) => B): (...args: A) => B
+export function flow<A extends unknown[], B, C> (ab: (...args: A) => B, bc: (arg: B) => C): (...args: A) => C
+export function flow<A extends unknown[], B, C, D> (ab: (...args: A) => B, bc: (arg: B) => C, cd: (arg: C) => D): (...args: A) => D
+export function flow<A extends unknown[], B, C, D, E> (ab: (...args: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E): (...args: A) => E
+export function flow<A extends unknown[], B, C, D, E, F> (ab: (...args: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F): (...args: A) => F
+export function flow<A extends unknown[], B, C, D, E, F, G> (ab: (...args: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F, fg: (arg: F) => G): (...args: A) => G
+export function flow<A extends unknown[], B, C, D, E, F, G, H> (ab: (...args: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F, fg: (arg: F) => G, gh: (arg: G) => H): (...args: A) => H
+export function flow<A extends unknown[], B, C, D, E, F, G, H, I> (ab: (...args: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F, fg: (arg: F) => G, gh: (arg: G) => H, hi: (arg: H) => I): (...args: A) => I
+export function flow<A extends unknown[], B, C, D, E, F, G, H, I, J> (ab: (...args: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F, fg: (arg: F) => G, gh: (arg: G) => H, hi: (arg: H) => I, ij: (arg: I) => J): (...args: A) => J
+export function flow<A extends unknown[], B, C, D, E, F, G, H, I, J, K> (ab: (...args: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F, fg: (arg: F) => G, gh: (arg: G) => H, hi: (arg: H) => I, ij: (arg: I) => J, jk: (arg: J) => K): (...args: A) => K
+export function flow<A extends unknown[], B, C, D, E, F, G, H, I, J, K, L> (ab: (...args: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F, fg: (arg: F) => G, gh: (arg: G) => H, hi: (arg: H) => I, ij: (arg: I) => J, jk: (arg: J) => K, kl: (arg: K) => L): (...args: A) => L
+export function flow<A extends unknown[], B, C, D, E, F, G, H, I, J, K, L, M> (ab: (...args: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F, fg: (arg: F) => G, gh: (arg: G) => H, hi: (arg: H) => I, ij: (arg: I) => J, jk: (arg: J) => K, kl: (arg: K) => L, lm: (arg: L) => M): (...args: A) => M
+export function flow<A extends unknown[], B, C, D, E, F, G, H, I, J, K, L, M, N> (ab: (...args: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F, fg: (arg: F) => G, gh: (arg: G) => H, hi: (arg: H) => I, ij: (arg: I) => J, jk: (arg: J) => K, kl: (arg: K) => L, lm: (arg: L) => M, mn: (arg: M) => N): (...args: A) => N
+export function flow<A extends unknown[], B, C, D, E, F, G, H, I, J, K, L, M, N, O> (ab: (...args: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F, fg: (arg: F) => G, gh: (arg: G) => H, hi: (arg: H) => I, ij: (arg: I) => J, jk: (arg: J) => K, kl: (arg: K) => L, lm: (arg: L) => M, mn: (arg: M) => N, no: (arg: N) => O): (...args: A) => O
+export function flow<A extends unknown[], B, C, D, E, F, G, H, I, J, K, L, M, N, O, P> (ab: (...args: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F, fg: (arg: F) => G, gh: (arg: G) => H, hi: (arg: H) => I, ij: (arg: I) => J, jk: (arg: J) => K, kl: (arg: K) => L, lm: (arg: L) => M, mn: (arg: M) => N, no: (arg: N) => O, op: (arg: O) => P): (...args: A) => P
+export function flow<A extends unknown[], B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q> (ab: (...args: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F, fg: (arg: F) => G, gh: (arg: G) => H, hi: (arg: H) => I, ij: (arg: I) => J, jk: (arg: J) => K, kl: (arg: K) => L, lm: (arg: L) => M, mn: (arg: M) => N, no: (arg: N) => O, op: (arg: O) => P, pq: (arg: P) => Q): (...args: A) => Q
+export function flow<A extends unknown[], B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R> (ab: (...args: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F, fg: (arg: F) => G, gh: (arg: G) => H, hi: (arg: H) => I, ij: (arg: I) => J, jk: (arg: J) => K, kl: (arg: K) => L, lm: (arg: L) => M, mn: (arg: M) => N, no: (arg: N) => O, op: (arg: O) => P, pq: (arg: P) => Q, qr: (arg: Q) => R): (...args: A) => R
+export function flow<A extends unknown[], B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R, S> (ab: (...args: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F, fg: (arg: F) => G, gh: (arg: G) => H, hi: (arg: H) => I, ij: (arg: I) => J, jk: (arg: J) => K, kl: (arg: K) => L, lm: (arg: L) => M, mn: (arg: M) => N, no: (arg: N) => O, op: (arg: O) => P, pq: (arg: P) => Q, qr: (arg: Q) => R, rs: (arg: R) => S): (...args: A) => S
+export function flow<A extends unknown[], B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R, S, T> (ab: (...args: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F, fg: (arg: F) => G, gh: (arg: G) => H, hi: (arg: H) => I, ij: (arg: I) => J, jk: (arg: J) => K, kl: (arg: K) => L, lm: (arg: L) => M, mn: (arg: M) => N, no: (arg: N) => O, op: (arg: O) => P, pq: (arg: P) => Q, qr: (arg: Q) => R, rs: (arg: R) => S, st: (arg: S) => T): (...args: A) => T
+export function flow<A extends unknown[], B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R, S, T, U> (ab: (...args: A) => B, bc: (arg: B) => C, cd: (arg: C) => D, de: (arg: D) => E, ef: (arg: E) => F, fg: (arg: F) => G, gh: (arg: G) => H, hi: (arg: H) => I, ij: (arg: I) => J, jk: (arg: J) => K, kl: (arg: K) => L, lm: (arg: L) => M, mn: (arg: M) => N, no: (arg: N) => O, op: (arg: O) => P, pq: (arg: P) => Q, qr: (arg: Q) => R, rs: (arg: R) => S, st: (arg: S) => T, tu: (arg: T) => U): (...args: A) => U
+export function flow (ab: (...args: unknown[]) => unknown, ...fns: ((arg: unknown) => unknown)[]): (...args: unknown[]) => unknown {
+  return (...args) => fns.reduce((acc, fn) => fn(acc), ab(...args))
+}
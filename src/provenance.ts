@@ -0,0 +1,78 @@
+/**
+ * Describes where a None came from. Only recorded when provenance tracking is enabled with
+ * {@link Option.trackProvenance | `Option.trackProvenance`}.
+ *
+ * @example
+ * ```ts
+ * Option.trackProvenance()
+ * const opt = Option.Some(-1).filter(n => n > 0, 'must be positive')
+ * opt.provenance() // Some({ operation: 'filter', reason: 'must be positive', stack: '...' })
+ * ```
+ */
+export interface Provenance {
+  /**
+   * Name of the operation that created the None, like `fromNullable`, `filter` or `take`.
+   */
+  readonly operation: string
+  /**
+   * Optional explanation of why the value is missing.
+   */
+  readonly reason?: string
+  /**
+   * Stack trace captured when the None was created.
+   */
+  readonly stack?: string
+}
+
+/**
+ * Options accepted by {@link Option.None | `Option.None`}.
+ */
+export interface NoneOptions {
+  /**
+   * Explanation of why the value is missing. Only recorded when provenance tracking is enabled.
+   */
+  readonly reason?: string
+  /**
+   * Error that explains why the value is missing. It's kept by the Nones derived from this one,
+   * with {@link Option.map | `map`}, {@link Option.andThen | `andThen`}, etc., and it's used as the
+   * `cause` of the errors thrown by {@link Option.unwrap | `unwrap`} and
+   * {@link Option.expect | `expect`}. Unlike the reason, it's recorded even when provenance
+   * tracking is disabled.
+   */
+  readonly cause?: Error
+}
+
+let tracking = false
+
+/**
+ * @hidden
+ */
+export function setTracking (enabled: boolean): void {
+  tracking = enabled
+}
+
+/**
+ * Records the provenance of a new None. When tracking is disabled nothing is captured,
+ * so the only cost is checking a flag.
+ *
+ * @hidden
+ */
+export function capture (operation: string, reason?: string): Provenance | undefined {
+  if (!tracking) {
+    return undefined
+  }
+  // Skips the error message and the frame of this function.
+  const stack = new Error().stack?.split('\n').slice(2).join('\n')
+  return { operation, reason, stack }
+}
+
+/**
+ * Formats a provenance to be included in error messages.
+ *
+ * @hidden
+ */
+export function describe (provenance: Provenance): string {
+  const reason = provenance.reason === undefined ? '' : `: ${provenance.reason}`
+  const stack = provenance.stack === undefined ? '' : `\n${provenance.stack}`
+  return `None created by ${provenance.operation}${reason}${stack}`
+}
@@ -0,0 +1,48 @@
+import {Option} from "./option.js"
+import {Result} from "./result.js"
+
+export abstract class ResultValue<T, E> {
+  abstract isOk (): boolean
+
+  abstract isErr (): boolean
+
+  abstract unwrap (): T
+
+  abstract unwrapErr (): E
+
+  abstract expect (err: Error): T
+
+  abstract expectErr (err: Error): E
+
+  abstract unwrapOr (defaultValue: T): T
+
+  abstract unwrapOrElse (fn: (e: E) => T): T
+
+  abstract map<U> (fn: (t: T) => U): Result<U, E>
+
+  abstract mapErr<F> (fn: (e: E) => F): Result<T, F>
+
+  abstract mapOrElse<U> (defFn: (e: E) => U, mapFn: (t: T) => U): U
+
+  abstract and<U> (another: Result<U, E>): Result<U, E>
+
+  abstract or<F> (another: Result<T, F>): Result<T, F>
+
+  abstract andThen<U> (fn: (t: T) => Result<U, E>): Result<U, E>
+
+  abstract orElse<F> (fn: (e: E) => Result<T, F>): Result<T, F>
+
+  abstract isOkAnd (fn: (t: T) => boolean): boolean
+
+  abstract isErrAnd (fn: (e: E) => boolean): boolean
+
+  abstract ok (): Option<T>
+
+  abstract err (): Option<E>
+
+  abstract ifOk (fn: (t: T) => void): void
+
+  abstract ifErr (fn: (e: E) => void): void
+
+  abstract toArray (): T[]
+}
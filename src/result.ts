@@ -0,0 +1,477 @@
+import {ResultValue} from "./result-value.js"
+import {Ok} from "./ok.js"
+import {Err} from "./err.js"
+import {Option} from "./option.js"
+import {Predicate, Transformation} from "./types.js";
+
+/**
+ * A Result represents the outcome of an operation that can fail. It's either
+ * `Ok` containing a value of type T, or `Err` containing an error of type E.
+ *
+ * Results are the companion of {@link Option | `Option`}: while an option only says
+ * whether a value is present or not, a result also keeps the reason of the failure.
+ *
+ * @example
+ * ```ts
+ * const ok = Result.Ok(10)
+ * const err = Result.Err('something went wrong')
+ * ```
+ *
+ * Results can be converted into options and the other way around:
+ *
+ * @example
+ * ```ts
+ * const opt = Result.Ok(10).ok() // Some(10)
+ * const res = Option.None().okOr('missing') // Err('missing')
+ * ```
+ *
+ * @param T - The type of the value in case of success
+ * @param E - The type of the error in case of failure
+ */
+export class Result<T, E> {
+  /**
+   * @hidden
+   * @private
+   */
+  private value: ResultValue<T, E>
+
+  /**
+   * @hidden
+   * @param value - Internal value for the result
+   * @private
+   */
+  private constructor (value: ResultValue<T, E>) {
+    this.value = value
+  }
+
+  /**
+   * Creates a successful result containing the given value.
+   *
+   * @param value - The value to be wrapped.
+   * @typeParam T - Type of the success value.
+   * @typeParam E - Type of the error.
+   * @returns An Ok result with the given value.
+   *
+   * @example
+   * ```ts
+   * const ok = Result.Ok('foo')
+   * ok.unwrap() === 'foo' // true
+   * ```
+   */
+  static Ok<T, E = never> (value: T): Result<T, E> {
+    return new Result<T, E>(new Ok(value))
+  }
+
+  /**
+   * Creates a failed result containing the given error.
+   *
+   * @param error - The error to be wrapped.
+   * @typeParam T - Type of the success value.
+   * @typeParam E - Type of the error.
+   * @returns An Err result with the given error.
+   *
+   * @example
+   * ```ts
+   * const err = Result.Err('foo')
+   * err.unwrapErr() === 'foo' // true
+   * ```
+   */
+  static Err<T = never, E = never> (error: E): Result<T, E> {
+    return new Result<T, E>(new Err(error))
+  }
+
+  /**
+   * Returns true if the result is Ok.
+   *
+   * @returns true if the result is Ok, false otherwise.
+   *
+   * @example
+   * ```ts
+   * Result.Ok(10).isOk() // true
+   * Result.Err('foo').isOk() // false
+   * ```
+   */
+  isOk (): boolean {
+    return this.value.isOk()
+  }
+
+  /**
+   * Returns true if the result is Err.
+   *
+   * @returns true if the result is Err, false otherwise.
+   *
+   * @example
+   * ```ts
+   * Result.Ok(10).isErr() // false
+   * Result.Err('foo').isErr() // true
+   * ```
+   */
+  isErr (): boolean {
+    return this.value.isErr()
+  }
+
+  /**
+   * Returns true if and only if the result is Ok and the value fulfills the given predicate.
+   *
+   * @param fn - Predicate applied to the contained value.
+   * @returns true if Ok and the predicate returns true, false otherwise.
+   *
+   * @example
+   * ```ts
+   * Result.Ok(10).isOkAnd(n => n > 5) // true
+   * Result.Ok(1).isOkAnd(n => n > 5) // false
+   * Result.Err<number, string>('foo').isOkAnd(n => n > 5) // false
+   * ```
+   */
+  isOkAnd (fn: Predicate<T>): boolean {
+    return this.value.isOkAnd(fn)
+  }
+
+  /**
+   * Returns true if and only if the result is Err and the error fulfills the given predicate.
+   *
+   * @param fn - Predicate applied to the contained error.
+   * @returns true if Err and the predicate returns true, false otherwise.
+   *
+   * @example
+   * ```ts
+   * Result.Err('foo').isErrAnd(e => e === 'foo') // true
+   * Result.Err('bar').isErrAnd(e => e === 'foo') // false
+   * Result.Ok<number, string>(10).isErrAnd(e => e === 'foo') // false
+   * ```
+   */
+  isErrAnd (fn: Predicate<E>): boolean {
+    return this.value.isErrAnd(fn)
+  }
+
+  /**
+   * Converts the result into an {@link Option | `Option`} of the success value,
+   * discarding the error.
+   *
+   * @returns Some with the value if Ok, None if Err.
+   *
+   * @example
+   * ```ts
+   * Result.Ok(10).ok() // Some(10)
+   * Result.Err('foo').ok() // None
+   * ```
+   */
+  ok (): Option<T> {
+    return this.value.ok()
+  }
+
+  /**
+   * Converts the result into an {@link Option | `Option`} of the error,
+   * discarding the success value.
+   *
+   * @returns Some with the error if Err, None if Ok.
+   *
+   * @example
+   * ```ts
+   * Result.Ok(10).err() // None
+   * Result.Err('foo').err() // Some('foo')
+   * ```
+   */
+  err (): Option<E> {
+    return this.value.err()
+  }
+
+  /**
+   * Transforms the success value using the given function. Errors are kept untouched.
+   *
+   * @param fn - The mapping function to apply to the value.
+   * @typeParam U - The type of the new success value.
+   * @returns A new result with the mapped value, or the same error.
+   *
+   * @example
+   * ```ts
+   * Result.Ok(5).map(n => n * 2) // Ok(10)
+   * Result.Err<number, string>('foo').map(n => n * 2) // Err('foo')
+   * ```
+   */
+  map<U> (fn: Transformation<T, U>): Result<U, E> {
+    return this.value.map(fn)
+  }
+
+  /**
+   * Transforms the error using the given function. Success values are kept untouched.
+   *
+   * @param fn - The mapping function to apply to the error.
+   * @typeParam F - The type of the new error.
+   * @returns A new result with the mapped error, or the same value.
+   *
+   * @example
+   * ```ts
+   * Result.Err('foo').mapErr(e => new Error(e)) // Err(Error('foo'))
+   * Result.Ok<number, string>(10).mapErr(e => new Error(e)) // Ok(10)
+   * ```
+   */
+  mapErr<F> (fn: Transformation<E, F>): Result<T, F> {
+    return this.value.mapErr(fn)
+  }
+
+  /**
+   * Returns the transformed success value, or the provided default if the result is Err.
+   *
+   * @param defaultValue - Value returned when the result is Err.
+   * @param mapFn - The mapping function to apply to the value.
+   * @returns The transformed value, or the default.
+   *
+   * @example
+   * ```ts
+   * Result.Ok(5).mapOr(0, n => n * 2) // 10
+   * Result.Err<number, string>('foo').mapOr(0, n => n * 2) // 0
+   * ```
+   */
+  mapOr<U> (defaultValue: U, mapFn: Transformation<T, U>): U {
+    return this.value.mapOrElse(() => defaultValue, mapFn)
+  }
+
+  /**
+   * Returns the transformed success value. If the result is Err, the default function
+   * is called with the error and its result is returned instead.
+   *
+   * @param defFn - Function to generate a value from the error.
+   * @param mapFn - The mapping function to apply to the value.
+   * @returns The transformed value, or the generated default.
+   *
+   * @example
+   * ```ts
+   * Result.Ok(5).mapOrElse(e => e.length, n => n * 2) // 10
+   * Result.Err<number, string>('foo').mapOrElse(e => e.length, n => n * 2) // 3
+   * ```
+   */
+  mapOrElse<U> (defFn: Transformation<E, U>, mapFn: Transformation<T, U>): U {
+    return this.value.mapOrElse(defFn, mapFn)
+  }
+
+  /**
+   * Returns the success value. If the result is Err it throws an error with the
+   * contained error as `cause`.
+   *
+   * Similar to {@link Option.unwrap | `Option#unwrap`}, safer alternatives like
+   * {@link Result.unwrapOr | `unwrapOr`} or {@link Result.unwrapOrElse | `unwrapOrElse`}
+   * should be preferred.
+   *
+   * @returns The contained value.
+   * @throws If the result is Err.
+   *
+   * @example
+   * ```ts
+   * Result.Ok('foo').unwrap() // 'foo'
+   * Result.Err('foo').unwrap() // throws Error
+   * ```
+   */
+  unwrap (): T {
+    return this.value.unwrap()
+  }
+
+  /**
+   * Returns the contained error. If the result is Ok it throws an error.
+   *
+   * @returns The contained error.
+   * @throws If the result is Ok.
+   *
+   * @example
+   * ```ts
+   * Result.Err('foo').unwrapErr() // 'foo'
+   * Result.Ok(10).unwrapErr() // throws Error
+   * ```
+   */
+  unwrapErr (): E {
+    return this.value.unwrapErr()
+  }
+
+  /**
+   * If the result is Ok returns the value, otherwise throws the error specified as argument.
+   *
+   * @param err - The error to throw if the result is Err.
+   * @returns The contained value.
+   * @throws The provided error if the result is Err.
+   *
+   * @example
+   * ```ts
+   * Result.Ok('foo').expect(new Error('No value')) // 'foo'
+   * Result.Err('foo').expect(new Error('No value')) // throws Error: 'No value'
+   * ```
+   */
+  expect (err: Error): T {
+    return this.value.expect(err)
+  }
+
+  /**
+   * If the result is Err returns the error, otherwise throws the error specified as argument.
+   *
+   * @param err - The error to throw if the result is Ok.
+   * @returns The contained error.
+   * @throws The provided error if the result is Ok.
+   *
+   * @example
+   * ```ts
+   * Result.Err('foo').expectErr(new Error('Was ok')) // 'foo'
+   * Result.Ok(10).expectErr(new Error('Was ok')) // throws Error: 'Was ok'
+   * ```
+   */
+  expectErr (err: Error): E {
+    return this.value.expectErr(err)
+  }
+
+  /**
+   * Returns the success value, or the provided default if the result is Err.
+   *
+   * @param defaultValue - Value returned when the result is Err.
+   * @returns The contained value or the default.
+   *
+   * @example
+   * ```ts
+   * Result.Ok('foo').unwrapOr('bar') // 'foo'
+   * Result.Err<string, number>(1).unwrapOr('bar') // 'bar'
+   * ```
+   */
+  unwrapOr (defaultValue: T): T {
+    return this.value.unwrapOr(defaultValue)
+  }
+
+  /**
+   * Returns the success value. If the result is Err, the given function is called with
+   * the error and the result of that is returned.
+   *
+   * @param fn - Function to generate a value from the error.
+   * @returns The contained value or the generated one.
+   *
+   * @example
+   * ```ts
+   * Result.Ok(10).unwrapOrElse(e => e.length) // 10
+   * Result.Err<number, string>('foo').unwrapOrElse(e => e.length) // 3
+   * ```
+   */
+  unwrapOrElse (fn: Transformation<E, T>): T {
+    return this.value.unwrapOrElse(fn)
+  }
+
+  /**
+   * Returns the argument if the result is Ok, otherwise returns the current error.
+   *
+   * @param another - Another result.
+   * @typeParam U - The success type of the other result.
+   * @returns The argument if this is Ok, or the current Err.
+   *
+   * @example
+   * ```ts
+   * Result.Ok(1).and(Result.Ok('foo')) // Ok('foo')
+   * Result.Ok(1).and(Result.Err('bar')) // Err('bar')
+   * Result.Err('foo').and(Result.Ok(1)) // Err('foo')
+   * ```
+   */
+  and<U> (another: Result<U, E>): Result<U, E> {
+    return this.value.and(another)
+  }
+
+  /**
+   * Calls the given function with the success value and returns its result.
+   * If the result is Err, the function is not called and the error is kept.
+   *
+   * @param fn - Function that generates a new result from the value.
+   * @typeParam U - The success type of the returned result.
+   * @returns The result of the function, or the current Err.
+   *
+   * @example
+   * ```ts
+   * const parse = (s: string): Result<number, string> => {
+   *   const n = Number(s)
+   *   return isNaN(n) ? Result.Err('not a number') : Result.Ok(n)
+   * }
+   * Result.Ok('10').andThen(parse) // Ok(10)
+   * Result.Ok('foo').andThen(parse) // Err('not a number')
+   * ```
+   */
+  andThen<U> (fn: (t: T) => Result<U, E>): Result<U, E> {
+    return this.value.andThen(fn)
+  }
+
+  /**
+   * Returns the current result if it's Ok, otherwise returns the argument.
+   *
+   * @param another - Another result.
+   * @typeParam F - The error type of the other result.
+   * @returns This if Ok, otherwise the argument.
+   *
+   * @example
+   * ```ts
+   * Result.Ok(1).or(Result.Ok(2)) // Ok(1)
+   * Result.Err('foo').or(Result.Ok(2)) // Ok(2)
+   * Result.Err('foo').or(Result.Err('bar')) // Err('bar')
+   * ```
+   */
+  or<F> (another: Result<T, F>): Result<T, F> {
+    return this.value.or(another)
+  }
+
+  /**
+   * Calls the given function with the error and returns its result.
+   * If the result is Ok, the function is not called and the value is kept.
+   *
+   * @param fn - Function that generates a new result from the error.
+   * @typeParam F - The error type of the returned result.
+   * @returns This if Ok, otherwise the result of the function.
+   *
+   * @example
+   * ```ts
+   * Result.Ok(1).orElse(() => Result.Ok(2)) // Ok(1)
+   * Result.Err('foo').orElse(e => Result.Ok(e.length)) // Ok(3)
+   * ```
+   */
+  orElse<F> (fn: (e: E) => Result<T, F>): Result<T, F> {
+    return this.value.orElse(fn)
+  }
+
+  /**
+   * Executes the given function only if the result is Ok. Always returns itself.
+   *
+   * @param fn - Function executed with the value if Ok.
+   * @returns Itself.
+   *
+   * @example
+   * ```ts
+   * Result.Ok('foo').ifOk(v => console.log(v)) // logs 'foo'
+   * Result.Err('bar').ifOk(v => console.log(v)) // does nothing
+   * ```
+   */
+  ifOk (fn: (t: T) => void): Result<T, E> {
+    this.value.ifOk(fn)
+    return this
+  }
+
+  /**
+   * Executes the given function only if the result is Err. Always returns itself.
+   *
+   * @param fn - Function executed with the error if Err.
+   * @returns Itself.
+   *
+   * @example
+   * ```ts
+   * Result.Ok('foo').ifErr(e => console.log(e)) // does nothing
+   * Result.Err('bar').ifErr(e => console.log(e)) // logs 'bar'
+   * ```
+   */
+  ifErr (fn: (e: E) => void): Result<T, E> {
+    this.value.ifErr(fn)
+    return this
+  }
+
+  /**
+   * Converts the result into an array. Ok returns an array of size 1 with the value,
+   * Err returns an empty array.
+   *
+   * @returns An array with the success value, if any.
+   *
+   * @example
+   * ```ts
+   * Result.Ok('foo').toArray() // ['foo']
+   * Result.Err('bar').toArray() // []
+   * ```
+   */
+  toArray (): T[] {
+    return this.value.toArray()
+  }
+}
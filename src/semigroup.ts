@@ -0,0 +1,135 @@
+import {Option} from "./option.js"
+
+/**
+ * A semigroup is an associative operation that combines 2 values of the same type
+ * into a new one. Used by {@link Option.combine | `Option#combine`}.
+ *
+ * @param T - The type of the combined values
+ *
+ * @example
+ * ```ts
+ * const longest: Semigroup<string> = (a, b) => a.length >= b.length ? a : b
+ * ```
+ */
+export type Semigroup<T> = (a: T, b: T) => T
+
+/**
+ * A monoid is a semigroup with an identity value: combining any value with `empty`
+ * returns the same value.
+ *
+ * @param T - The type of the combined values
+ *
+ * @example
+ * ```ts
+ * const all: Monoid<boolean> = { combine: (a, b) => a && b, empty: true }
+ * ```
+ */
+export interface Monoid<T> {
+  combine: Semigroup<T>
+  empty: T
+}
+
+/**
+ * Adds both numbers.
+ */
+export const sum: Semigroup<number> = (a, b) => a + b
+
+/**
+ * Multiplies both numbers.
+ */
+export const product: Semigroup<number> = (a, b) => a * b
+
+/**
+ * Keeps the lesser number.
+ */
+export const min: Semigroup<number> = (a, b) => Math.min(a, b)
+
+/**
+ * Keeps the greater number.
+ */
+export const max: Semigroup<number> = (a, b) => Math.max(a, b)
+
+/**
+ * Concatenates both strings.
+ */
+export const concatStrings: Semigroup<string> = (a, b) => a + b
+
+/**
+ * Concatenates both arrays into a new one.
+ */
+export function concatArrays<T> (a: T[], b: T[]): T[] {
+  return [...a, ...b]
+}
+
+/**
+ * Keeps the first value.
+ */
+export function first<T> (a: T, _b: T): T {
+  return a
+}
+
+/**
+ * Keeps the last value.
+ */
+export function last<T> (_a: T, b: T): T {
+  return b
+}
+
+/**
+ * Shallow merges both objects into a new one. Keys of the second object take precedence.
+ */
+export function mergeObjects<T extends object> (a: T, b: T): T {
+  return { ...a, ...b }
+}
+
+/**
+ * Monoid for {@link sum | `sum`}, with 0 as identity.
+ */
+export const sumMonoid: Monoid<number> = { combine: sum, empty: 0 }
+
+/**
+ * Monoid for {@link product | `product`}, with 1 as identity.
+ */
+export const productMonoid: Monoid<number> = { combine: product, empty: 1 }
+
+/**
+ * Monoid for {@link concatStrings | `concatStrings`}, with the empty string as identity.
+ */
+export const stringMonoid: Monoid<string> = { combine: concatStrings, empty: '' }
+
+/**
+ * Creates a monoid for {@link concatArrays | `concatArrays`}, with the empty array as identity.
+ *
+ * @typeParam T - Type of the elements of the arrays.
+ */
+export function arrayMonoid<T> (): Monoid<T[]> {
+  return { combine: concatArrays, empty: [] }
+}
+
+/**
+ * Creates a monoid for {@link mergeObjects | `mergeObjects`}, with the empty object as identity.
+ *
+ * @typeParam T - Type of the merged objects.
+ */
+export function objectMonoid<T extends object> (): Monoid<Partial<T>> {
+  return { combine: mergeObjects, empty: {} }
+}
+
+/**
+ * Combines the values of all the Somes using the monoid. Nones are ignored, and if there
+ * are no Somes the result is the identity of the monoid.
+ *
+ * @param options - Options to combine.
+ * @param monoid - How to combine the values.
+ * @typeParam T - Type of the combined values.
+ * @returns The combined value.
+ *
+ * @example
+ * ```ts
+ * fold([Option.Some(1), Option.None(), Option.Some(2)], sumMonoid) // 3
+ * fold([], sumMonoid) // 0
+ * ```
+ */
+export function fold<T> (options: Iterable<Option<T>>, monoid: Monoid<T>): T {
+  return Option.combineAll(options, monoid.combine).unwrapOr(monoid.empty)
+}
@@ -1,6 +1,10 @@
 import {OptionalValue} from "./optional-value.js"
-import {Option} from "./option.js"
-import {AreEqual, FlattenOption} from "./types.js";
+import {Option, fromNone, someUnchecked} from "./option.js"
+import {Result} from "./result.js"
+import {None} from "./none.js"
+import {capture, Provenance} from "./provenance.js"
+import {checkCallbackResult, checkFlatten} from "./contracts.js"
+import {AreEqual, Comparator, FlattenOption, ReadonlyOption} from "./types.js";
 
 export class Some<T> extends OptionalValue<T> {
   value: T
@@ -24,18 +28,18 @@ export class Some<T> extends OptionalValue<T> {
 
   map<M> (fn: (a: T) => M): Option<M> {
     const newValue = fn(this.value)
-    return Option.Some(newValue)
+    return someUnchecked(newValue)
   }
 
-  filter (fn: (a: T) => boolean): Option<T> {
+  filter (fn: (a: T) => boolean, reason?: string): Option<T> {
     const res = fn(this.value)
     if (res) {
-      return Option.Some(this.value)
+      return someUnchecked(this.value)
     }
-    return Option.None()
+    return fromNone(new None(capture('filter', reason)))
   }
 
-  expect (_err: Error): T {
+  expect (_errFn: (cause?: Error) => Error): T {
     return this.value
   }
 
@@ -48,10 +52,11 @@ export class Some<T> extends OptionalValue<T> {
   }
 
   flatten (): Option<FlattenOption<T>> {
-    if (this.value instanceof Option) {
-      return this.value
+    checkFlatten(this.value)
+    if (Option.isOption(this.value)) {
+      return Option.adopt(this.value) as Option<FlattenOption<T>>
     } else {
-      return Option.Some(this.value) as Option<FlattenOption<T>>
+      return someUnchecked(this.value) as Option<FlattenOption<T>>
     }
   }
 
@@ -60,14 +65,14 @@ export class Some<T> extends OptionalValue<T> {
   }
 
   zipWithSome<U> (some: Some<U>): Option<[U, T]> {
-    return Option.Some([some.value, this.value])
+    return someUnchecked([some.value, this.value])
   }
 
   and<V>(another: Option<V>): Option<V> {
     return another
   }
 
-  or(self: Option<T>, _another: Option<T>): Option<T> {
+  or(self: ReadonlyOption<T>, _another: ReadonlyOption<T>): ReadonlyOption<T> {
     return self
   }
 
@@ -76,7 +81,7 @@ export class Some<T> extends OptionalValue<T> {
   }
 
   xorWithNone (): Option<T> {
-    return Option.Some(this.value)
+    return someUnchecked(this.value)
   }
 
   xorWithSome (_some: Some<T>): Option<T> {
@@ -84,11 +89,13 @@ export class Some<T> extends OptionalValue<T> {
   }
 
   andThen<U> (fn: (t: T) => Option<U>): Option<U> {
-    return fn(this.value)
+    const result = fn(this.value)
+    checkCallbackResult('andThen', result)
+    return result
   }
 
   orElse (_fn: () => Option<T>): Option<T> {
-    return Option.Some(this.value)
+    return someUnchecked(this.value)
   }
 
   getOrInsert (_value: T): OptionalValue<T> {
@@ -100,7 +107,7 @@ export class Some<T> extends OptionalValue<T> {
   }
 
   takeValue (): Option<T> {
-    return Option.Some(this.value);
+    return someUnchecked(this.value);
   }
 
   isSomeAnd (andFn: (t: T) => boolean): boolean {
@@ -122,4 +129,20 @@ export class Some<T> extends OptionalValue<T> {
   equalsWith (another: OptionalValue<T>, equality: AreEqual<T>): boolean {
     return another.isSomeAnd(t => equality(this.value, t));
   }
+
+  compareWith (another: OptionalValue<T>, cmp: Comparator<T>): number {
+    return another.isPresent() ? cmp(this.value, another.unwrap()) : 1
+  }
+
+  okOr<E> (_err: E): Result<T, E> {
+    return Result.Ok(this.value)
+  }
+
+  okOrElse<E> (_fn: () => E): Result<T, E> {
+    return Result.Ok(this.value)
+  }
+
+  provenance (): Option<Provenance> {
+    return Option.None()
+  }
 }
\ No newline at end of file
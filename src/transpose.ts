@@ -0,0 +1,43 @@
+import {Option, someUnchecked} from "./option.js"
+import {Result} from "./result.js"
+
+/**
+ * Swaps an option of a result into a result of an option, or the other way around.
+ *
+ * For `Option<Result<T, E>>`:
+ * - `None` is mapped to `Ok(None)`.
+ * - `Some(Ok(v))` is mapped to `Ok(Some(v))`.
+ * - `Some(Err(e))` is mapped to `Err(e)`.
+ *
+ * For `Result<Option<T>, E>` the mapping goes in the opposite direction.
+ *
+ * @typeParam T - Any type
+ * @typeParam E - Any type
+ * @param value - Option of result or result of option to transpose
+ * @returns The transposed value
+ *
+ * @example
+ * ```ts
+ * const opt: Option<Result<number, string>> = Option.Some(Result.Ok(10))
+ * transpose(opt) // Ok(Some(10))
+ *
+ * const res: Result<Option<number>, string> = Result.Ok(Option.None())
+ * transpose(res) // None
+ * ```
+ */
+export function transpose<T, E>(value: Option<Result<T, E>>): Result<Option<T>, E>
+export function transpose<T, E>(value: Result<Option<T>, E>): Option<Result<T, E>>
+export function transpose<T, E>(
+  value: Option<Result<T, E>> | Result<Option<T>, E>
+): Result<Option<T>, E> | Option<Result<T, E>> {
+  if (Option.isOption(value)) {
+    return value.mapOrElse(
+      () => Result.Ok<Option<T>, E>(Option.None()),
+      res => res.map(t => someUnchecked(t))
+    )
+  }
+  return value.mapOrElse(
+    e => someUnchecked(Result.Err<T, E>(e)),
+    opt => opt.mapOrElse(() => Option.None(), t => someUnchecked(Result.Ok<T, E>(t)))
+  )
+}
@@ -134,4 +134,224 @@ export type FlattenOption<A> = A extends Option<infer B>
  * const fn3: AreEqual<object> = (a1: object, a2: object) => JSON.stringify(a1) === JSON.stringify(a2)
  * ```
  */
-export type AreEqual<A> = (a1: A, a2: A) => boolean
\ No newline at end of file
+export type AreEqual<A> = (a1: A, a2: A) => boolean
+
+/**
+ * Type alias for functions that compare 2 values, following the contract of the
+ * callback of `Array#sort`: negative if the first value goes before the second one,
+ * positive if it goes after, and 0 if both are equivalent.
+ *
+ * @param A - any type
+ *
+ * @example
+ * ```ts
+ * const byLength: Comparator<string> = (a, b) => a.length - b.length
+ * const byName: Comparator<User> = (a, b) => a.name.localeCompare(b.name)
+ * ```
+ */
+export type Comparator<A> = (a1: A, a2: A) => number
+
+/**
+ * Type alias for values that can be returned either directly or wrapped in a promise.
+ *
+ * This is used by async operations that accept callbacks, so the callbacks can be
+ * sync or async.
+ *
+ * @param A - any type
+ *
+ * @example
+ * ```ts
+ * // All the following are valid examples
+ * const v1: MaybePromise<number> = 10
+ * const v2: MaybePromise<number> = Promise.resolve(10)
+ * const fn: (n: number) => MaybePromise<string> = async (n) => n.toString()
+ * ```
+ */
+export type MaybePromise<A> = A | PromiseLike<A>
+
+
+/**
+ * Object with one function for each possible variant of an option. Used to
+ * match over the content of an option. Both branches are required.
+ *
+ * @param A - any type
+ * @param R - any type
+ *
+ * @example
+ * ```ts
+ * const matcher: OptionMatcher<number, string> = {
+ *   some: n => `value: ${n}`,
+ *   none: () => 'no value'
+ * }
+ * ```
+ */
+export type OptionMatcher<A, R> = {
+  some: Transformation<A, R>
+  none: Generator<R>
+}
+
+/**
+ * Object with one function for each possible combination of variants of 2 options. Used to
+ * match over the content of a pair of options. All the branches are required.
+ *
+ * @param A - any type
+ * @param B - any type
+ * @param R - any type
+ *
+ * @example
+ * ```ts
+ * const matcher: OptionDuoMatcher<number, string, string> = {
+ *   someSome: (n, s) => s.repeat(n),
+ *   someNone: n => n.toString(),
+ *   noneSome: s => s,
+ *   noneNone: () => ''
+ * }
+ * ```
+ */
+export type OptionDuoMatcher<A, B, R> = {
+  someSome: ZipTransformation<A, B, R>
+  someNone: Transformation<A, R>
+  noneSome: Transformation<B, R>
+  noneNone: Generator<R>
+}
+
+declare const someBrand: unique symbol
+declare const noneBrand: unique symbol
+
+/**
+ * Type level variant of an option that is known to contain a value.
+ *
+ * Values of this type are obtained narrowing regular options with
+ * {@link Option.isSome | `isSome`}, {@link Option.isSomeAnd | `isSomeAnd`} or
+ * {@link assertSome | `assertSome`}. A plain `Option<A>` is not assignable to `Some<A>`.
+ *
+ * `Option<A>` is not a union of `Some<A>` and `None<A>`, so checking
+ * {@link Option.isNone | `isNone`} does not narrow the option to `Some<A>` in the other branch.
+ * Early returns have to use `!opt.isSome()` or {@link assertSome | `assertSome`}.
+ *
+ * @param A - any type
+ *
+ * @example
+ * ```ts
+ * const onlySome = (opt: Some<number>) => opt.get()
+ *
+ * const opt = Option.Some(10)
+ * onlySome(opt) // compile error
+ * if (opt.isSome()) {
+ *   onlySome(opt) // 10
+ * }
+ * ```
+ */
+export type Some<A> = Option<A> & { readonly [someBrand]: true }
+
+/**
+ * Type level variant of an option that is known to be empty.
+ *
+ * Values of this type are obtained narrowing regular options with
+ * {@link Option.isNone | `isNone`} or {@link assertNone | `assertNone`}.
+ *
+ * @param A - any type
+ *
+ * @example
+ * ```ts
+ * const opt: Option<number> = Option.None()
+ * if (opt.isNone()) {
+ *   const none: None<number> = opt
+ * }
+ * ```
+ */
+export type None<A = never> = Option<A> & { readonly [noneBrand]: true }
+
+/**
+ * Reference-like handle to the value contained in an option, returned by
+ * {@link Option.asMut | `Option#asMut`}. Reading and writing through the handle reads
+ * and writes the content of the option.
+ *
+ * @param A - any type
+ *
+ * @example
+ * ```ts
+ * const opt = Option.Some(1)
+ * opt.asMut().ifSome(ref => ref.set(ref.get() + 1))
+ * opt // Some(2)
+ * ```
+ */
+export interface MutRef<A> {
+  /**
+   * Returns the current value of the option.
+   */
+  get (): A
+
+  /**
+   * Replaces the value of the option.
+   */
+  set (value: A): void
+}
+
+/**
+ * Minimal shape of an option created by another copy of the library, or in another realm.
+ * It's accepted by {@link Option.adopt | `Option.adopt`}.
+ *
+ * @param A - any type
+ */
+export interface OptionLike<A> {
+  isSome (): boolean
+  unwrap (): A
+}
+
+/**
+ * Names of the methods that modify an option in place.
+ */
+export type MutatingMethod =
+  'insert' | 'take' | 'replace' | 'getOrInsert' | 'getOrInsertWith' | 'update' | 'asMut' | 'takeIf'
+
+/**
+ * Version of {@link Option | `Option`} that only exposes the methods that do not modify
+ * the option. Receiving a `ReadonlyOption` guarantees that the option cannot be emptied
+ * or changed by the receiver.
+ *
+ * It's covariant in its type parameter, so a `ReadonlyOption<Dog>` can be used where a
+ * `ReadonlyOption<Animal>` is expected.
+ *
+ * Values of this type are obtained with {@link Option.asReadonly | `asReadonly`}, or with
+ * {@link Option.freeze | `freeze`} to also forbid the mutations at runtime. Any `Option<A>`
+ * is assignable to `ReadonlyOption<A>`.
+ *
+ * @param A - any type
+ *
+ * @example
+ * ```ts
+ * const render = (name: ReadonlyOption<string>) => name.unwrapOr('anonymous')
+ * render(Option.Some('foo')) // 'foo'
+ * ```
+ */
+export type ReadonlyOption<A> = Omit<Option<A>, MutatingMethod>
+
+/**
+ * Type helper that transforms a record of options into a record with the values
+ * contained by those options.
+ *
+ * ```ts
+ * let a1: UnwrapOptionRecord<{ a: Option<number>, b: Option<string> }>
+ * let a2: { a: number, b: string }
+ * // a1 and a2 have the same type
+ * ```
+ *
+ * @param R - record of options
+ */
+export type UnwrapOptionRecord<R extends Record<string, Option<unknown>>> = {
+  [K in keyof R]: FlattenOption<R[K]>
+}
+
+/**
+ * Function that removes a previously registered listener or handler, like the ones
+ * registered with {@link OptionCell.subscribe | `OptionCell#subscribe`} or
+ * {@link HookRegistry.onOperation | `Option.hooks.onOperation`}.
+ *
+ * @example
+ * ```ts
+ * const unsubscribe: Unsubscribe = cell.subscribe(listener)
+ * unsubscribe() // the listener is not called anymore
+ * ```
+ */
+export type Unsubscribe = () => void
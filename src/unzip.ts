@@ -1,4 +1,4 @@
-import {Option} from "./option.js";
+import {Option, someUnchecked} from "./option.js";
 
 /**
  * Tuple of 2 options.
@@ -8,6 +8,19 @@ import {Option} from "./option.js";
  */
 export type OptionDuo<A, B> = [Option<A>, Option<B>]
 
+/**
+ * Tuple of n options, one for each element of the given tuple type.
+ *
+ * ```ts
+ * let a1: OptionTuple<[number, string, boolean]>
+ * let a2: [Option<number>, Option<string>, Option<boolean>]
+ * // a1 and a2 have the same type
+ * ```
+ *
+ * @param T - Any tuple type
+ */
+export type OptionTuple<T extends unknown[]> = { [K in keyof T]: Option<T[K]> }
+
 /**
  * Type safe function to unzip an option of a tuple of 2 into a tuple of 2 options.
  * @typeParam A - Any type
@@ -25,6 +38,38 @@ export type OptionDuo<A, B> = [Option<A>, Option<B>]
  * ```
  */
 export function unzip<A, B> (opt: Option<[A, B]>): OptionDuo<A, B> {
-  return opt.map<OptionDuo<A, B>>(([a, b]) => [Option.Some(a), Option.Some(b)])
-      .unwrapOr([Option.None<A>(), Option.None<B>()])
-}
\ No newline at end of file
+  return opt.mapOrElse<OptionDuo<A, B>>(
+    () => [Option.None<A>(), Option.None<B>()],
+    ([a, b]) => [someUnchecked(a), someUnchecked(b)]
+  )
+}
+
+/**
+ * Type safe function to unzip an option of a tuple of any size into a tuple of options.
+ *
+ * The size of the tuple has to be provided, because there is no way to know it
+ * when the option is None. The size is checked at compile time against the type of
+ * the tuple.
+ *
+ * @typeParam T - Any tuple type
+ *
+ * @param opt - Option to unzip
+ * @param size - Size of the tuple
+ * @returns a tuple of options.
+ *
+ * @example
+ * ```ts
+ * const opt: Option<[number, string, boolean]> = Option.Some([10, 'foo', true])
+ * const [optA, optB, optC] = unzipN(opt, 3)
+ * optA.unwrap() === 10 // true
+ * optC.unwrap() === true // true
+ *
+ * const none: Option<[number, string, boolean]> = Option.None()
+ * unzipN(none, 3) // [None, None, None]
+ * ```
+ */
+export function unzipN<T extends unknown[]> (opt: Option<[...T]>, size: T['length']): OptionTuple<T> {
+  const options = Array.from({ length: size }, (_, i) =>
+    opt.mapOrElse(() => Option.None(), values => someUnchecked(values[i])))
+  return options as OptionTuple<T>
+}
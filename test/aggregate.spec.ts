@@ -0,0 +1,50 @@
+import {describe, it} from 'mocha'
+import {expect} from 'chai'
+import {aggregate, Option} from "../src/index.js"
+
+describe('aggregate', () => {
+  const numbers = [Option.Some(3), Option.None<number>(), Option.Some(1), Option.Some(2), Option.Some(6)]
+  const nones = [Option.None<number>(), Option.None<number>()]
+
+  it('sum adds the values of the somes', () => {
+    expect(aggregate.sum(numbers)).to.eql(Option.Some(12))
+  })
+
+  it('mean averages the values of the somes', () => {
+    expect(aggregate.mean(numbers)).to.eql(Option.Some(3))
+  })
+
+  it('min and max ignore the nones', () => {
+    expect(aggregate.min(numbers)).to.eql(Option.Some(1))
+    expect(aggregate.max(numbers)).to.eql(Option.Some(6))
+  })
+
+  it('median returns the middle value', () => {
+    expect(aggregate.median(numbers)).to.eql(Option.Some(2.5))
+    expect(aggregate.median([Option.Some(3), Option.Some(1), Option.Some(2)])).to.eql(Option.Some(2))
+  })
+
+  it('return none for empty inputs', () => {
+    expect(aggregate.sum([])).to.eql(Option.None())
+    expect(aggregate.mean([])).to.eql(Option.None())
+    expect(aggregate.min([])).to.eql(Option.None())
+    expect(aggregate.max([])).to.eql(Option.None())
+    expect(aggregate.median([])).to.eql(Option.None())
+  })
+
+  it('return none when all the inputs are none', () => {
+    expect(aggregate.sum(nones)).to.eql(Option.None())
+    expect(aggregate.mean(nones)).to.eql(Option.None())
+    expect(aggregate.min(nones)).to.eql(Option.None())
+    expect(aggregate.max(nones)).to.eql(Option.None())
+    expect(aggregate.median(nones)).to.eql(Option.None())
+  })
+
+  it('work with any iterable', () => {
+    function* gen () {
+      yield Option.Some(1)
+      yield Option.Some(2)
+    }
+    expect(aggregate.mean(gen())).to.eql(Option.Some(1.5))
+  })
+})
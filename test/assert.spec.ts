@@ -0,0 +1,42 @@
+import {describe} from "mocha";
+import {Option} from "../src/index.js";
+import {assertNone, assertSome} from "../src/assert.js";
+import {expect} from "chai";
+
+describe('assertSome', () => {
+  it('does not throw for Some and narrows the option', () => {
+    const opt: Option<number> = Option.Some(10)
+    assertSome(opt)
+    expect(opt.get()).to.eql(10)
+  })
+
+  it('throws a default error for None', () => {
+    const opt: Option<number> = Option.None()
+    expect(() => assertSome(opt)).to.throw(Error, 'assertSome over None.')
+  })
+
+  it('throws the given error for None', () => {
+    const opt: Option<number> = Option.None()
+    const err = new Error('missing')
+    expect(() => assertSome(opt, err)).to.throw(err)
+  })
+})
+
+describe('assertNone', () => {
+  it('does not throw for None', () => {
+    const opt: Option<number> = Option.None()
+    assertNone(opt)
+    expect(opt.isNone()).to.eql(true)
+  })
+
+  it('throws a default error for Some', () => {
+    const opt: Option<number> = Option.Some(1)
+    expect(() => assertNone(opt)).to.throw(Error, 'assertNone over Some.')
+  })
+
+  it('throws the given error for Some', () => {
+    const opt: Option<number> = Option.Some(1)
+    const err = new Error('unexpected')
+    expect(() => assertNone(opt, err)).to.throw(err)
+  })
+})
@@ -0,0 +1,173 @@
+import {describe, it} from 'mocha'
+import {expect} from 'chai'
+import {AsyncOption, Option} from "../src/index.js"
+
+describe('AsyncOption', () => {
+  describe('.fromOption', () => {
+    it('resolves to the same option', async () => {
+      expect(await AsyncOption.fromOption(Option.Some(10))).to.eql(Option.Some(10))
+      expect(await AsyncOption.fromOption(Option.None())).to.eql(Option.None())
+    })
+  })
+
+  describe('.fromPromise', () => {
+    it('resolves to the option inside the promise', async () => {
+      const asyncOpt = AsyncOption.fromPromise(Promise.resolve(Option.Some('foo')))
+      expect(await asyncOpt).to.eql(Option.Some('foo'))
+    })
+
+    it('propagates rejections', async () => {
+      const asyncOpt = AsyncOption.fromPromise(Promise.reject(new Error('boom')))
+      let error: unknown = null
+      try {
+        await asyncOpt
+      } catch (e) {
+        error = e
+      }
+      expect(error).to.be.instanceOf(Error)
+    })
+  })
+
+  describe('#mapAsync', () => {
+    it('maps the value with an async fn', async () => {
+      const res = await AsyncOption.fromOption(Option.Some(5)).mapAsync(async n => n * 2)
+      expect(res.unwrap()).to.eql(10)
+    })
+
+    it('maps the value with a sync fn', async () => {
+      const res = await AsyncOption.fromOption(Option.Some(5)).mapAsync(n => n.toString())
+      expect(res.unwrap()).to.eql('5')
+    })
+
+    it('does not call the fn for None', async () => {
+      const res = await AsyncOption.fromOption(Option.None<number>())
+          .mapAsync(() => expect.fail('should not be called'))
+      expect(res.isNone()).to.eql(true)
+    })
+  })
+
+  describe('#andThenAsync', () => {
+    it('chains the option returned by the fn', async () => {
+      const some = await AsyncOption.fromOption(Option.Some(5))
+          .andThenAsync(async n => Option.Some(n + 1))
+      expect(some.unwrap()).to.eql(6)
+
+      const none = await AsyncOption.fromOption(Option.Some(5))
+          .andThenAsync(async () => Option.None())
+      expect(none.isNone()).to.eql(true)
+    })
+
+    it('does not call the fn for None', async () => {
+      const res = await AsyncOption.fromOption(Option.None<number>())
+          .andThenAsync(() => expect.fail('should not be called'))
+      expect(res.isNone()).to.eql(true)
+    })
+  })
+
+  describe('#filterAsync', () => {
+    it('keeps the value when the predicate resolves to true', async () => {
+      const res = await AsyncOption.fromOption(Option.Some(5)).filterAsync(async n => n > 3)
+      expect(res.unwrap()).to.eql(5)
+    })
+
+    it('returns None when the predicate resolves to false', async () => {
+      const res = await AsyncOption.fromOption(Option.Some(1)).filterAsync(async n => n > 3)
+      expect(res.isNone()).to.eql(true)
+    })
+
+    it('does not call the predicate for None', async () => {
+      const res = await AsyncOption.fromOption(Option.None<number>())
+          .filterAsync(() => expect.fail('should not be called'))
+      expect(res.isNone()).to.eql(true)
+    })
+  })
+
+  describe('#orElseAsync', () => {
+    it('keeps Some without calling the fn', async () => {
+      const res = await AsyncOption.fromOption(Option.Some('foo'))
+          .orElseAsync(() => expect.fail('should not be called'))
+      expect(res.unwrap()).to.eql('foo')
+    })
+
+    it('generates a new option for None', async () => {
+      const res = await AsyncOption.fromOption(Option.None<string>())
+          .orElseAsync(async () => Option.Some('bar'))
+      expect(res.unwrap()).to.eql('bar')
+    })
+  })
+
+  describe('#unwrapOrElseAsync', () => {
+    it('returns the value for Some', async () => {
+      const res = await AsyncOption.fromOption(Option.Some('foo')).unwrapOrElseAsync(async () => 'bar')
+      expect(res).to.eql('foo')
+    })
+
+    it('returns the generated value for None', async () => {
+      const res = await AsyncOption.fromOption(Option.None<string>()).unwrapOrElseAsync(async () => 'bar')
+      expect(res).to.eql('bar')
+    })
+  })
+
+  describe('#noneOnReject', () => {
+    it('transforms rejections into None', async () => {
+      const res = await AsyncOption.fromPromise<number>(Promise.reject(new Error('boom')))
+          .mapAsync(n => n + 1)
+          .noneOnReject()
+      expect(res.isNone()).to.eql(true)
+    })
+
+    it('transforms rejections inside callbacks into None', async () => {
+      const res = await AsyncOption.fromOption(Option.Some(1))
+          .mapAsync(async () => { throw new Error('boom') })
+          .noneOnReject()
+      expect(res.isNone()).to.eql(true)
+    })
+
+    it('keeps values untouched', async () => {
+      const res = await AsyncOption.fromOption(Option.Some(1)).noneOnReject()
+      expect(res.unwrap()).to.eql(1)
+    })
+  })
+
+  describe('laziness', () => {
+    it('does not execute any step until awaited', async () => {
+      let called = false
+      const asyncOpt = AsyncOption.fromOption(Option.Some(1)).mapAsync(n => {
+        called = true
+        return n
+      })
+      await Promise.resolve()
+      expect(called).to.eql(false)
+      await asyncOpt
+      expect(called).to.eql(true)
+    })
+
+    it('executes each step only once when awaited many times', async () => {
+      let calls = 0
+      const asyncOpt = AsyncOption.fromOption(Option.Some(1)).mapAsync(n => {
+        calls += 1
+        return n
+      })
+      await asyncOpt
+      await asyncOpt
+      expect(calls).to.eql(1)
+    })
+  })
+  describe('#[Symbol.asyncIterator]', () => {
+    it('produces the value of Some once', async () => {
+      const values: number[] = []
+      for await (const value of AsyncOption.fromOption(Option.Some(1))) {
+        values.push(value)
+      }
+      expect(values).to.eql([1])
+    })
+
+    it('produces nothing for None', async () => {
+      const values: number[] = []
+      for await (const value of AsyncOption.fromOption(Option.None<number>())) {
+        values.push(value)
+      }
+      expect(values).to.eql([])
+    })
+  })
+})
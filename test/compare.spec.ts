@@ -0,0 +1,38 @@
+import {describe, it} from 'mocha'
+import {expect} from 'chai'
+import {naturalOrder, Option, sortByOption} from "../src/index.js"
+
+describe('naturalOrder', () => {
+  it('compares with < and >', () => {
+    expect(naturalOrder(1, 2)).to.eql(-1)
+    expect(naturalOrder('b', 'a')).to.eql(1)
+    expect(naturalOrder(3, 3)).to.eql(0)
+  })
+})
+
+describe('sortByOption', () => {
+  const users = [
+    {name: 'a', age: Option.Some(30)},
+    {name: 'b', age: Option.None<number>()},
+    {name: 'c', age: Option.Some(20)},
+    {name: 'd', age: Option.None<number>()}
+  ]
+
+  it('places the elements with None keys first by default', () => {
+    expect(sortByOption(users, u => u.age).map(u => u.name)).to.eql(['b', 'd', 'c', 'a'])
+  })
+
+  it('can place the elements with None keys last', () => {
+    expect(sortByOption(users, u => u.age, naturalOrder, {noneLast: true}).map(u => u.name)).to.eql(['c', 'a', 'b', 'd'])
+  })
+
+  it('can use a custom comparator', () => {
+    expect(sortByOption(users, u => u.age, (a, b) => b - a).map(u => u.name)).to.eql(['b', 'd', 'a', 'c'])
+  })
+
+  it('does not modify the original array', () => {
+    const original = [...users]
+    sortByOption(users, u => u.age)
+    expect(users).to.eql(original)
+  })
+})
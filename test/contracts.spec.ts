@@ -0,0 +1,126 @@
+import {afterEach, describe, it} from 'mocha'
+import {expect} from 'chai'
+import {AsyncOption, decoders, Option, OptionContractError} from "../src/index.js"
+import * as entryPoint from "../src/index.js"
+
+describe('Option.configure', () => {
+  afterEach(() => {
+    Option.configure({ someNullish: 'allow', validateCallbacks: false })
+  })
+
+  describe('someNullish', () => {
+    it('allows nullish somes by default', () => {
+      expect(Option.Some(undefined).isSome()).to.eql(true)
+      expect(Option.Some(null).isSome()).to.eql(true)
+    })
+
+    it('throws for nullish somes when set to throw', () => {
+      Option.configure({ someNullish: 'throw' })
+      expect(() => Option.Some(undefined)).to.throw(OptionContractError, /Option\.fromNullable/)
+      expect(() => Option.Some(null)).to.throw(OptionContractError)
+    })
+
+    it('does not check the somes created by other methods', async () => {
+      Option.configure({ someNullish: 'throw' })
+      expect(Option.Some(1).map(() => undefined).isSome()).to.eql(true)
+      expect(Option.gen(function* () {}).isSome()).to.eql(true)
+      expect((await Option.fromPromise(Promise.resolve(undefined))).isSome()).to.eql(true)
+      expect(Option.fromJSON('{"$option":"some","value":null}').isSome()).to.eql(true)
+    })
+
+    it('does not check the values returned by mapAsync', async () => {
+      Option.configure({ someNullish: 'throw' })
+      const res = await AsyncOption.fromOption(Option.Some(1)).mapAsync(async () => undefined)
+      expect(res.isSome()).to.eql(true)
+    })
+
+    it('does not break the decoders', () => {
+      Option.configure({ someNullish: 'throw' })
+      expect(decoders.string(undefined).isNone()).to.eql(true)
+      expect(decoders.literal(null)(null).unwrap()).to.eql(null)
+      expect(decoders.object({ a: decoders.number })({}).isNone()).to.eql(true)
+      expect(decoders.object({ a: decoders.optionalField(decoders.number) })({}))
+        .to.eql(Option.Some({ a: Option.None() }))
+    })
+
+    it('does not complain about falsy values', () => {
+      Option.configure({ someNullish: 'throw' })
+      expect(Option.Some(0).isSome()).to.eql(true)
+      expect(Option.Some('').isSome()).to.eql(true)
+      expect(Option.Some(false).isSome()).to.eql(true)
+    })
+
+    it('logs a warning and creates the some when set to warn', () => {
+      const warnings: unknown[] = []
+      const original = console.warn
+      console.warn = (message: unknown) => warnings.push(message)
+      try {
+        Option.configure({ someNullish: 'warn' })
+        expect(Option.Some(undefined).isSome()).to.eql(true)
+      } finally {
+        console.warn = original
+      }
+      expect(warnings).to.have.length(1)
+      expect(warnings[0]).to.include('Option.Some received undefined')
+    })
+  })
+
+  describe('validateCallbacks', () => {
+    it('does not validate by default', () => {
+      const res = Option.Some(1).andThen(n => (n + 1) as unknown as Option<number>)
+      expect(res).to.eql(2)
+    })
+
+    it('throws when andThen callback does not return an option', () => {
+      Option.configure({ validateCallbacks: true })
+      expect(() => Option.Some(1).andThen(n => (n + 1) as unknown as Option<number>))
+        .to.throw(OptionContractError, 'The function given to andThen returned 2 instead of an Option.')
+    })
+
+    it('throws when orElse callback does not return an option', () => {
+      Option.configure({ validateCallbacks: true })
+      expect(() => Option.None<string>().orElse(() => 'foo' as unknown as Option<string>))
+        .to.throw(OptionContractError, `The function given to orElse returned 'foo' instead of an Option.`)
+    })
+
+    it('accepts callbacks that return options', () => {
+      Option.configure({ validateCallbacks: true })
+      expect(Option.Some(1).andThen(n => Option.Some(n + 1))).to.eql(Option.Some(2))
+      expect(Option.None<number>().orElse(() => Option.Some(3))).to.eql(Option.Some(3))
+    })
+
+    it('throws when flattening a some that does not contain an option', () => {
+      Option.configure({ validateCallbacks: true })
+      expect(() => Option.Some(1).flatten()).to.throw(OptionContractError, /flatten was called over a Some containing 1/)
+      expect(Option.Some(Option.Some(1)).flatten()).to.eql(Option.Some(1))
+    })
+
+    it('keeps the other settings when configuring only one', () => {
+      Option.configure({ validateCallbacks: true })
+      Option.configure({ someNullish: 'throw' })
+      expect(() => Option.Some(1).flatten()).to.throw(OptionContractError)
+    })
+  })
+
+  describe('unchecked constructors', () => {
+    it('are not part of the public api', () => {
+      expect(entryPoint).not.to.have.property('someUnchecked')
+      expect(entryPoint).not.to.have.property('fromNone')
+      expect(Option).not.to.have.property('someUnchecked')
+      expect(Option).not.to.have.property('fromNone')
+    })
+  })
+
+  describe('OptionContractError', () => {
+    it('has a stable code', () => {
+      Option.configure({ someNullish: 'throw' })
+      try {
+        Option.Some(null)
+        expect.fail('Some should throw')
+      } catch (e) {
+        expect(e).to.be.instanceOf(TypeError)
+        expect((e as OptionContractError).code).to.eql('ERR_OPTION_CONTRACT')
+      }
+    })
+  })
+})
@@ -0,0 +1,134 @@
+import {describe, it} from 'mocha'
+import {expect} from 'chai'
+import {Option} from "../src/index.js"
+import {
+  array,
+  boolean,
+  decodeWithReport,
+  DecoderType,
+  literal,
+  number,
+  object,
+  optionalField,
+  record,
+  string,
+  union
+} from "../src/decoder.js"
+
+describe('decoders', () => {
+  describe('primitives', () => {
+    it('string only accepts strings', () => {
+      expect(string('foo')).to.eql(Option.Some('foo'))
+      expect(string(10)).to.eql(Option.None())
+    })
+
+    it('number only accepts numbers', () => {
+      expect(number(10)).to.eql(Option.Some(10))
+      expect(number('10')).to.eql(Option.None())
+      expect(number(NaN)).to.eql(Option.None())
+    })
+
+    it('boolean only accepts booleans', () => {
+      expect(boolean(false)).to.eql(Option.Some(false))
+      expect(boolean('false')).to.eql(Option.None())
+    })
+
+    it('literal only accepts the given value', () => {
+      const admin = literal('admin')
+      expect(admin('admin')).to.eql(Option.Some('admin'))
+      expect(admin('user')).to.eql(Option.None())
+    })
+  })
+
+  describe('array', () => {
+    it('decodes every element', () => {
+      expect(array(number)([1, 2])).to.eql(Option.Some([1, 2]))
+    })
+
+    it('fails if any element fails', () => {
+      expect(array(number)([1, '2'])).to.eql(Option.None())
+    })
+
+    it('fails for non arrays', () => {
+      expect(array(number)({ 0: 1 })).to.eql(Option.None())
+    })
+  })
+
+  describe('record', () => {
+    it('decodes every value', () => {
+      expect(record(number)({ a: 1, b: 2 })).to.eql(Option.Some({ a: 1, b: 2 }))
+    })
+
+    it('fails if any value fails', () => {
+      expect(record(number)({ a: 1, b: '2' })).to.eql(Option.None())
+    })
+
+    it('fails for arrays and null', () => {
+      expect(record(number)([1])).to.eql(Option.None())
+      expect(record(number)(null)).to.eql(Option.None())
+    })
+  })
+
+  describe('object', () => {
+    const user = object({ name: string, age: optionalField(number) })
+
+    it('decodes each key with its decoder', () => {
+      const decoded = user({ name: 'foo', age: 10, extra: true })
+      expect(decoded).to.eql(Option.Some({ name: 'foo', age: Option.Some(10) }))
+    })
+
+    it('decodes missing optional fields as None', () => {
+      const decoded = user({ name: 'foo' })
+      expect(decoded).to.eql(Option.Some({ name: 'foo', age: Option.None() }))
+    })
+
+    it('fails for missing required fields', () => {
+      expect(user({ age: 10 })).to.eql(Option.None())
+    })
+
+    it('fails for optional fields with wrong type', () => {
+      expect(user({ name: 'foo', age: '10' })).to.eql(Option.None())
+    })
+
+    it('infers the type of the decoded value', () => {
+      const decoded: Option<{ name: string, age: Option<number> }> = user({ name: 'foo' })
+      const typed: DecoderType<typeof user> = decoded.unwrap()
+      expect(typed.name).to.eql('foo')
+    })
+  })
+
+  describe('union', () => {
+    const id = union(string, number)
+
+    it('returns the first decoder that succeeds', () => {
+      expect(id('foo')).to.eql(Option.Some('foo'))
+      expect(id(10)).to.eql(Option.Some(10))
+    })
+
+    it('fails if every decoder fails', () => {
+      expect(id(true)).to.eql(Option.None())
+    })
+  })
+
+  describe('decodeWithReport', () => {
+    const user = object({ name: string, tags: array(string) })
+
+    it('returns Ok with the decoded value', () => {
+      const res = decodeWithReport(user, { name: 'foo', tags: ['a'] })
+      expect(res.unwrap()).to.eql({ name: 'foo', tags: ['a'] })
+    })
+
+    it('returns Err with the path of each failure', () => {
+      const res = decodeWithReport(user, { name: 1, tags: ['a', 2] })
+      expect(res.unwrapErr()).to.eql([
+        { path: ['name'], expected: 'string', received: 1 },
+        { path: ['tags', 1], expected: 'string', received: 2 }
+      ])
+    })
+
+    it('reports unions as a single failure', () => {
+      const res = decodeWithReport(array(union(string, number)), ['a', true])
+      expect(res.unwrapErr()).to.eql([{ path: [1], expected: 'union', received: true }])
+    })
+  })
+})
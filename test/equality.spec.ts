@@ -0,0 +1,86 @@
+import {describe, it} from 'mocha'
+import {expect} from 'chai'
+import {deepEqual, Equatable, equalsSymbol, Option} from "../src/index.js"
+
+class Money implements Equatable {
+  constructor (readonly amount: number, readonly currency: string, readonly label = '') {}
+
+  [equalsSymbol] (other: unknown): boolean {
+    return other instanceof Money && this.amount === other.amount && this.currency === other.currency
+  }
+}
+
+describe('deepEqual', () => {
+  it('compares primitives with ===', () => {
+    expect(deepEqual(1, 1)).to.eql(true)
+    expect(deepEqual('1', 1)).to.eql(false)
+    expect(deepEqual(null, undefined)).to.eql(false)
+  })
+
+  it('considers NaN equal to itself', () => {
+    expect(deepEqual(NaN, NaN)).to.eql(true)
+  })
+
+  it('compares arrays element by element', () => {
+    expect(deepEqual([1, [2, 3]], [1, [2, 3]])).to.eql(true)
+    expect(deepEqual([1, 2], [1, 2, 3])).to.eql(false)
+  })
+
+  it('compares plain objects by keys', () => {
+    expect(deepEqual({a: 1, b: {c: 2}}, {b: {c: 2}, a: 1})).to.eql(true)
+    expect(deepEqual({a: 1}, {a: 1, b: undefined})).to.eql(false)
+    expect(deepEqual({a: 1}, {b: 1})).to.eql(false)
+  })
+
+  it('objects with different prototypes are not equal', () => {
+    expect(deepEqual([], {})).to.eql(false)
+    expect(deepEqual(new Date(0), {})).to.eql(false)
+  })
+
+  it('compares dates by time', () => {
+    expect(deepEqual(new Date(10), new Date(10))).to.eql(true)
+    expect(deepEqual(new Date(10), new Date(11))).to.eql(false)
+  })
+
+  it('compares maps by keys and deep values', () => {
+    expect(deepEqual(new Map([['a', [1]]]), new Map([['a', [1]]]))).to.eql(true)
+    expect(deepEqual(new Map([['a', [1]]]), new Map([['a', [2]]]))).to.eql(false)
+    expect(deepEqual(new Map([['a', 1]]), new Map([['b', 1]]))).to.eql(false)
+  })
+
+  it('compares sets by deep elements', () => {
+    expect(deepEqual(new Set([1, {a: 1}]), new Set([{a: 1}, 1]))).to.eql(true)
+    expect(deepEqual(new Set([{a: 1}]), new Set([{a: 2}]))).to.eql(false)
+    expect(deepEqual(new Set([1]), new Set([1, 2]))).to.eql(false)
+  })
+
+  it('matches the elements of sets one to one', () => {
+    const duplicated = new Set([{id: 1}, {id: 1}])
+    const distinct = new Set([{id: 1}, {id: 2}])
+    expect(deepEqual(duplicated, distinct)).to.eql(false)
+    expect(deepEqual(distinct, duplicated)).to.eql(false)
+    expect(deepEqual(new Set([{id: 2}, {id: 1}]), distinct)).to.eql(true)
+    expect(deepEqual(distinct, new Set([{id: 2}, {id: 1}]))).to.eql(true)
+  })
+
+  it('compares nested options deeply', () => {
+    expect(deepEqual({a: Option.Some([1])}, {a: Option.Some([1])})).to.eql(true)
+    expect(deepEqual({a: Option.Some([1])}, {a: Option.None()})).to.eql(false)
+  })
+
+  it('supports cyclic values', () => {
+    const a: Record<string, unknown> = {id: 1}
+    a.self = a
+    const b: Record<string, unknown> = {id: 1}
+    b.self = b
+    const c: Record<string, unknown> = {id: 2}
+    c.self = c
+    expect(deepEqual(a, b)).to.eql(true)
+    expect(deepEqual(a, c)).to.eql(false)
+  })
+
+  it('uses the Equatable protocol when implemented', () => {
+    expect(deepEqual(new Money(10, 'USD', 'a'), new Money(10, 'USD', 'b'))).to.eql(true)
+    expect(deepEqual(new Money(10, 'USD'), new Money(10, 'EUR'))).to.eql(false)
+  })
+})
@@ -0,0 +1,116 @@
+import {describe, it} from 'mocha'
+import {expect} from 'chai'
+import {Option, Result} from "../src/index.js"
+import * as fp from "../src/fp.js"
+
+describe('fp', () => {
+  const parse = (s: string) => Option.Some(Number(s)).filter(n => !isNaN(n))
+  const positive = (n: number) => Option.Some(n).filter(n => n > 0)
+
+  describe('curried functions', () => {
+    it('can be used point free', () => {
+      const opts = [Option.Some(1), Option.None<number>(), Option.Some(3)]
+      expect(opts.map(fp.map(n => n * 2))).to.eql([Option.Some(2), Option.None(), Option.Some(6)])
+      expect(opts.map(fp.unwrapOr(0))).to.eql([1, 0, 3])
+      expect(opts.filter(fp.isSome).map(opt => opt.get())).to.eql([1, 3])
+      expect(opts.filter(fp.isNone)).to.eql([Option.None()])
+      expect([1, null].map(fp.fromNullable)).to.eql([Option.Some(1), Option.None()])
+    })
+
+    it('behave like the methods', () => {
+      const some = Option.Some(2)
+      const none = Option.None<number>()
+      expect(fp.filter((n: number) => n > 5)(some)).to.eql(none)
+      expect(fp.andThen(positive)(some)).to.eql(some)
+      expect(fp.orElse(() => Option.Some(1))(none)).to.eql(Option.Some(1))
+      expect(fp.and(Option.Some('a'))(some)).to.eql(Option.Some('a'))
+      expect(fp.or(Option.Some(1))(none)).to.eql(Option.Some(1))
+      expect(fp.xor(Option.Some(1))(some)).to.eql(none)
+      expect(fp.zip(Option.Some('a'))(some)).to.eql(Option.Some([2, 'a']))
+      expect(fp.zipWith(Option.Some(3), (a: number, b: number) => a * b)(some)).to.eql(Option.Some(6))
+      expect(fp.combine(Option.Some(3), (a, b) => a + b)(some)).to.eql(Option.Some(5))
+      expect(fp.flatten(Option.Some(some))).to.eql(some)
+      expect(fp.mapOr(0, (n: number) => n + 1)(none)).to.eql(0)
+      expect(fp.mapOrElse(() => 0, (n: number) => n + 1)(some)).to.eql(3)
+      expect(fp.isSomeAnd((n: number) => n > 1)(some)).to.eql(true)
+      expect(fp.unwrap(some)).to.eql(2)
+      expect(fp.unwrapOrElse(() => 0)(none)).to.eql(0)
+      expect(() => fp.expect(new Error('missing'))(none)).to.throw('missing')
+      expect(fp.match({some: (n: number) => n, none: () => -1})(none)).to.eql(-1)
+      expect(fp.equals(Option.Some(2))(some)).to.eql(true)
+      expect(fp.toArray(some)).to.eql([2])
+      expect(fp.okOr('err')(none)).to.eql(Result.Err('err'))
+      expect(fp.okOrElse(() => 'err')(some)).to.eql(Result.Ok(2))
+      expect(fp.some(1)).to.eql(Option.Some(1))
+      expect(fp.none()).to.eql(none)
+    })
+
+    it('ifSome and ifNone run side effects', () => {
+      const calls: string[] = []
+      fp.ifSome((n: number) => calls.push(`some ${n}`))(Option.Some(1))
+      fp.ifNone(() => calls.push('none'))(Option.None())
+      expect(calls).to.eql(['some 1', 'none'])
+    })
+  })
+
+  describe('pipe', () => {
+    it('returns the value when there are no functions', () => {
+      expect(fp.pipe(1)).to.eql(1)
+    })
+
+    it('applies the functions in order', () => {
+      const res = fp.pipe(
+        Option.Some(' foo '),
+        fp.map(s => s.trim()),
+        fp.filter(s => s.length > 0),
+        fp.unwrapOr('default')
+      )
+      expect(res).to.eql('foo')
+    })
+
+    it('infers types across 20 steps', () => {
+      const inc = fp.map((n: number) => n + 1)
+      const res: Option<number> = fp.pipe(
+        Option.Some(0),
+        inc, inc, inc, inc, inc, inc, inc, inc, inc, inc,
+        inc, inc, inc, inc, inc, inc, inc, inc, inc, inc
+      )
+      expect(res).to.eql(Option.Some(20))
+    })
+  })
+
+  describe('flow', () => {
+    it('composes the functions', () => {
+      const parsePort = fp.flow(
+        (s: string) => Option.fromNullable(s),
+        fp.map(Number),
+        fp.filter(n => Number.isInteger(n) && n > 0)
+      )
+      expect(['80', 'foo'].map(parsePort)).to.eql([Option.Some(80), Option.None()])
+    })
+
+    it('the first function can receive many arguments', () => {
+      const sum = fp.flow((a: number, b: number) => a + b, n => n * 2)
+      expect(sum(1, 2)).to.eql(6)
+    })
+  })
+
+  describe('composeK', () => {
+    it('chains the functions', () => {
+      const parsePositive = fp.composeK(parse, positive, n => Option.Some(n.toString()))
+      expect(parsePositive('10')).to.eql(Option.Some('10'))
+      expect(parsePositive('-1')).to.eql(Option.None())
+      expect(parsePositive('foo')).to.eql(Option.None())
+    })
+
+    it('stops at the first none', () => {
+      let called = false
+      const fn = fp.composeK(parse, (n: number) => {
+        called = true
+        return Option.Some(n)
+      })
+      expect(fn('foo')).to.eql(Option.None())
+      expect(called).to.eql(false)
+    })
+  })
+})
@@ -0,0 +1,166 @@
+import {afterEach, describe, it} from 'mocha'
+import {expect} from 'chai'
+import {decoders, HookContext, Hooks, Option, OptionKeyedSet, OperationEvent, UnwrapNoneError} from "../src/index.js"
+
+describe('Option.hooks', () => {
+  afterEach(() => {
+    Option.hooks.clear()
+  })
+
+  describe('#onUnwrapNone', () => {
+    it('is called with the error before it is thrown', () => {
+      const errors: UnwrapNoneError[] = []
+      Option.hooks.onUnwrapNone(error => errors.push(error))
+      expect(() => Option.None().unwrap()).to.throw(UnwrapNoneError)
+      expect(errors).to.have.length(1)
+      expect(errors[0]).to.be.instanceOf(UnwrapNoneError)
+    })
+
+    it('is not called for some', () => {
+      let calls = 0
+      Option.hooks.onUnwrapNone(() => calls++)
+      Option.Some(1).unwrap()
+      expect(calls).to.eql(0)
+    })
+
+    it('can replace the error throwing a custom one', () => {
+      class CustomError extends Error {}
+      Option.hooks.onUnwrapNone(() => {
+        throw new CustomError('custom')
+      })
+      expect(() => Option.None().unwrap()).to.throw(CustomError, 'custom')
+    })
+
+    it('is not called after unsubscribing', () => {
+      let calls = 0
+      const unsubscribe = Option.hooks.onUnwrapNone(() => calls++)
+      unsubscribe()
+      expect(() => Option.None().unwrap()).to.throw(UnwrapNoneError)
+      expect(calls).to.eql(0)
+    })
+  })
+
+  describe('#onExpectFail', () => {
+    it('is called with the error built by expect', () => {
+      const errors: Error[] = []
+      Option.hooks.onExpectFail(error => errors.push(error))
+      expect(() => Option.None().expect('missing value')).to.throw(UnwrapNoneError)
+      expect(errors.map(e => e.message)).to.eql(['missing value'])
+    })
+
+    it('is not called by unwrap', () => {
+      let calls = 0
+      Option.hooks.onExpectFail(() => calls++)
+      expect(() => Option.None().unwrap()).to.throw(UnwrapNoneError)
+      expect(calls).to.eql(0)
+    })
+  })
+
+  describe('#onOperation', () => {
+    it('reports every map, filter and andThen', () => {
+      const events: OperationEvent[] = []
+      Option.hooks.onOperation(event => events.push(event))
+      const result = Option.Some(2)
+        .map(n => n * 2)
+        .filter(n => n > 10)
+        .andThen(n => Option.Some(n + 1))
+      expect(events.map(e => e.operation)).to.eql(['map', 'filter', 'andThen'])
+      expect(events[0].input).to.eql(Option.Some(2))
+      expect(events[0].output).to.eql(Option.Some(4))
+      expect(events[1].output.isNone()).to.eql(true)
+      expect(events[2].output).to.equal(result)
+    })
+
+    it('does not report the operations used internally by other methods', () => {
+      const events: OperationEvent[] = []
+      Option.hooks.onOperation(event => events.push(event))
+      const opt = Option.Some(3)
+      opt.match({ some: n => n, none: () => 0 })
+      opt.mapOr(0, n => n)
+      opt.cloned()
+      opt.clamp(1, 2)
+      JSON.stringify(opt)
+      Option.fromJSON<number>(JSON.stringify(opt))
+      new OptionKeyedSet([opt]).has(Option.Some(3))
+      decoders.object({ a: decoders.array(decoders.number) })({ a: [1, 2] })
+      expect(events).to.eql([])
+    })
+
+    it('does not call the handlers for the options used inside a handler', () => {
+      const outputs: string[] = []
+      Option.hooks.onOperation(e => outputs.push(JSON.stringify(e.output.map(n => n))))
+      Option.Some(1).map(n => n + 1)
+      expect(outputs).to.eql(['{"$option":"some","value":2}'])
+    })
+  })
+
+  describe('#scoped', () => {
+    it('installs the hooks only while the function runs', () => {
+      let calls = 0
+      const hooks: Hooks = { onUnwrapNone: () => calls++ }
+      Option.hooks.scoped(hooks, () => {
+        expect(() => Option.None().unwrap()).to.throw(UnwrapNoneError)
+      })
+      expect(() => Option.None().unwrap()).to.throw(UnwrapNoneError)
+      expect(calls).to.eql(1)
+    })
+
+    it('returns the result of the function', () => {
+      expect(Option.hooks.scoped({}, () => 'foo')).to.eql('foo')
+    })
+
+    it('removes the hooks when the function throws', () => {
+      let calls = 0
+      expect(() => Option.hooks.scoped({ onOperation: () => calls++ }, () => {
+        throw new Error('boom')
+      })).to.throw('boom')
+      Option.Some(1).map(n => n)
+      expect(calls).to.eql(0)
+    })
+
+    it('combines nested scopes and global handlers', () => {
+      const calls: string[] = []
+      Option.hooks.onOperation(() => calls.push('global'))
+      Option.hooks.scoped({ onOperation: () => calls.push('outer') }, () => {
+        Option.hooks.scoped({ onOperation: () => calls.push('inner') }, () => {
+          Option.Some(1).map(n => n)
+        })
+      })
+      expect(calls).to.eql(['global', 'outer', 'inner'])
+    })
+  })
+
+  describe('#useContext', () => {
+    afterEach(() => {
+      Option.hooks.useContext()
+    })
+
+    it('keeps the scoped hooks in the given context', () => {
+      const runs: Hooks[][] = []
+      let store: Hooks[] | undefined = undefined
+      const context: HookContext<Hooks[]> = {
+        getStore: () => store,
+        run: (next, fn) => {
+          runs.push(next)
+          store = next
+          return fn()
+        }
+      }
+      Option.hooks.useContext(context)
+      let calls = 0
+      const hooks: Hooks = { onUnwrapNone: () => calls++ }
+      Option.hooks.scoped(hooks, () => 'foo')
+      expect(runs).to.eql([[hooks]])
+      expect(() => Option.None().unwrap()).to.throw(UnwrapNoneError)
+      expect(calls).to.eql(1)
+    })
+
+    it('restores the synchronous context by default', () => {
+      let calls = 0
+      Option.hooks.useContext()
+      Option.hooks.scoped({ onUnwrapNone: () => calls++ }, () => 'foo')
+      expect(() => Option.None().unwrap()).to.throw(UnwrapNoneError)
+      expect(calls).to.eql(0)
+    })
+  })
+})
@@ -0,0 +1,87 @@
+import {describe, it} from 'mocha'
+import {expect} from 'chai'
+import {Option} from "../src/index.js"
+import {filterMap, flatten, Peekable, scan, takeWhileSome, unfold} from "../src/iter.js"
+
+describe('iter', () => {
+  const parse = (s: string) => Option.Some(Number(s)).filter(n => !isNaN(n))
+
+  describe('filterMap', () => {
+    it('keeps the values of the Somes returned by the fn', () => {
+      expect([...filterMap(['1', 'foo', '3'], parse)]).to.eql([1, 3])
+    })
+
+    it('is lazy', () => {
+      const calls: string[] = []
+      const it = filterMap(['1', '2'], s => {
+        calls.push(s)
+        return parse(s)
+      })
+      expect(calls).to.eql([])
+      it.next()
+      expect(calls).to.eql(['1'])
+    })
+  })
+
+  describe('flatten', () => {
+    it('produces the values of the Somes', () => {
+      expect([...flatten([Option.Some(1), Option.None<number>(), Option.Some(3)])]).to.eql([1, 3])
+    })
+  })
+
+  describe('takeWhileSome', () => {
+    it('stops at the first None', () => {
+      const opts = [Option.Some(1), Option.Some(2), Option.None<number>(), Option.Some(4)]
+      expect([...takeWhileSome(opts)]).to.eql([1, 2])
+    })
+  })
+
+  describe('scan', () => {
+    it('produces each intermediate state until the fn returns None', () => {
+      const res = scan([1, 2, 3, 4], 0, (acc, n) => Option.Some(acc + n).filter(s => s <= 5))
+      expect([...res]).to.eql([1, 3])
+    })
+  })
+
+  describe('unfold', () => {
+    it('generates values until the fn returns None', () => {
+      const res = unfold(1, n => Option.Some<[number, number]>([n, n * 2]).filter(() => n < 10))
+      expect([...res]).to.eql([1, 2, 4, 8])
+    })
+
+    it('generates nothing if the first call returns None', () => {
+      expect([...unfold(1, () => Option.None<[number, number]>())]).to.eql([])
+    })
+  })
+
+  describe('Peekable', () => {
+    it('peek does not consume the element', () => {
+      const it = new Peekable([1, 2])
+      expect(it.peek()).to.eql(Option.Some(1))
+      expect(it.peek()).to.eql(Option.Some(1))
+      expect(it.next()).to.eql(Option.Some(1))
+      expect(it.next()).to.eql(Option.Some(2))
+    })
+
+    it('peek returns a copy that cannot modify the buffered element', () => {
+      const it = new Peekable([1, 2])
+      expect(it.peek().take()).to.eql(Option.Some(1))
+      expect(it.next()).to.eql(Option.Some(1))
+      expect(it.next()).to.eql(Option.Some(2))
+    })
+
+    it('returns None when exhausted', () => {
+      const it = new Peekable([1])
+      it.next()
+      expect(it.peek()).to.eql(Option.None())
+      expect(it.next()).to.eql(Option.None())
+    })
+
+    it('can iterate the remaining elements', () => {
+      const it = new Peekable([1, 2, 3])
+      it.next()
+      it.peek()
+      expect([...it]).to.eql([2, 3])
+    })
+  })
+})
@@ -0,0 +1,106 @@
+import {describe, it} from 'mocha'
+import {expect} from 'chai'
+import {Option, OptionCodec} from "../src/index.js"
+
+describe('json', () => {
+  describe('#toJSON', () => {
+    it('uses the tagged encoding by default', () => {
+      expect(JSON.stringify(Option.Some(1))).to.eql('{"$option":"some","value":1}')
+      expect(JSON.stringify(Option.None())).to.eql('{"$option":"none"}')
+    })
+
+    it('encodes nested options', () => {
+      const json = JSON.stringify({ a: Option.Some(Option.None()) })
+      expect(json).to.eql('{"a":{"$option":"some","value":{"$option":"none"}}}')
+    })
+  })
+
+  describe('.stringify', () => {
+    it('nullable encodes some as the value and none as null', () => {
+      const json = Option.stringify({ a: Option.Some(1), b: Option.None() }, 'nullable')
+      expect(json).to.eql('{"a":1,"b":null}')
+    })
+
+    it('serde encodes some as an object and none as a string', () => {
+      const json = Option.stringify([Option.Some(1), Option.None()], 'serde')
+      expect(json).to.eql('[{"Some":1},"None"]')
+    })
+
+    it('does not change the encoding used by JSON.stringify', () => {
+      Option.stringify(Option.Some(1), 'serde')
+      expect(JSON.stringify(Option.Some(1))).to.eql('{"$option":"some","value":1}')
+    })
+
+    it('accepts custom codecs', () => {
+      const arrayCodec: OptionCodec = {
+        encode: opt => opt.toArray(),
+        isEncoded: json => Array.isArray(json) && json.length <= 1,
+        decode: json => Option.fromNullable((json as unknown[])[0])
+      }
+      expect(Option.stringify({ a: Option.Some(1) }, arrayCodec)).to.eql('{"a":[1]}')
+    })
+  })
+
+  describe('.reviver', () => {
+    it('revives tagged options at any level', () => {
+      const parsed = JSON.parse('{"a":{"$option":"some","value":1},"b":[{"$option":"none"}]}', Option.reviver())
+      expect(parsed.a).to.eql(Option.Some(1))
+      expect(parsed.b[0]).to.eql(Option.None())
+    })
+
+    it('revives serde options', () => {
+      const parsed = JSON.parse('{"a":{"Some":1},"b":"None"}', Option.reviver('serde'))
+      expect(parsed.a).to.eql(Option.Some(1))
+      expect(parsed.b).to.eql(Option.None())
+    })
+
+    it('does not transform anything for nullable', () => {
+      const parsed = JSON.parse('{"a":null,"b":1}', Option.reviver('nullable'))
+      expect(parsed).to.eql({ a: null, b: 1 })
+    })
+  })
+
+  describe('.fromJSON', () => {
+    it('round trips nested options with the tagged encoding', () => {
+      const values = [
+        Option.Some(Option.Some(1)),
+        Option.Some(Option.None()),
+        Option.None<Option<number>>()
+      ]
+      values.forEach(value => {
+        const decoded = Option.fromJSON<Option<number>>(JSON.stringify(value))
+        expect(decoded).to.eql(value)
+      })
+    })
+
+    it('round trips some undefined with the tagged encoding', () => {
+      expect(JSON.stringify(Option.Some(undefined))).to.eql('{"$option":"some"}')
+      expect(Option.fromJSON(JSON.stringify(Option.Some(undefined)))).to.eql(Option.Some(undefined))
+      const nested = Option.Some(Option.Some(undefined))
+      expect(Option.fromJSON(JSON.stringify(nested))).to.eql(nested)
+      const inside = { a: Option.Some(undefined) }
+      expect(JSON.parse(JSON.stringify(inside), Option.reviver())).to.eql(inside)
+    })
+
+    it('round trips nested options with the serde encoding', () => {
+      const values = [
+        Option.Some(Option.Some(1)),
+        Option.Some(Option.None()),
+        Option.None<Option<number>>()
+      ]
+      values.forEach(value => {
+        const decoded = Option.fromJSON<Option<number>>(Option.stringify(value, 'serde'), 'serde')
+        expect(decoded).to.eql(value)
+      })
+    })
+
+    it('decodes nullable values', () => {
+      expect(Option.fromJSON<number>('1', 'nullable')).to.eql(Option.Some(1))
+      expect(Option.fromJSON<number>('null', 'nullable')).to.eql(Option.None())
+    })
+
+    it('throws if the top level value is not an encoded option', () => {
+      expect(() => Option.fromJSON('{"a":1}')).to.throw(Error, 'JSON does not contain an encoded option.')
+    })
+  })
+})
@@ -0,0 +1,136 @@
+import {describe, it} from 'mocha'
+import {expect} from 'chai'
+import {LazyOption, Option} from "../src/index.js"
+
+describe('LazyOption', () => {
+  describe('.from', () => {
+    it('does not call the function until forced', () => {
+      let calls = 0
+      const lazy = LazyOption.from(() => {
+        calls++
+        return Option.Some(1)
+      })
+      expect(calls).to.eql(0)
+      expect(lazy.force()).to.eql(Option.Some(1))
+      expect(calls).to.eql(1)
+    })
+  })
+
+  describe('.fromOption', () => {
+    it('resolves to the same option', () => {
+      expect(LazyOption.fromOption(Option.Some(10)).force()).to.eql(Option.Some(10))
+      expect(LazyOption.fromOption(Option.None()).force()).to.eql(Option.None())
+    })
+  })
+
+  describe('steps', () => {
+    it('are not executed until forced', () => {
+      const calls: string[] = []
+      const lazy = LazyOption.fromOption(Option.Some(2))
+        .map(n => {
+          calls.push('map')
+          return n * 2
+        })
+        .filter(n => {
+          calls.push('filter')
+          return n > 1
+        })
+        .andThen(n => {
+          calls.push('andThen')
+          return Option.Some(n.toString())
+        })
+      expect(calls).to.eql([])
+      expect(lazy.force()).to.eql(Option.Some('4'))
+      expect(calls).to.eql(['map', 'filter', 'andThen'])
+    })
+
+    it('stop calling functions after a none', () => {
+      let called = false
+      const lazy = LazyOption.fromOption(Option.Some(2))
+        .filter(n => n > 5)
+        .map(n => {
+          called = true
+          return n
+        })
+      expect(lazy.force()).to.eql(Option.None())
+      expect(called).to.eql(false)
+    })
+
+    it('orElse generates an alternative for none', () => {
+      const lazy = LazyOption.fromOption(Option.None<string>()).orElse(() => Option.Some('default'))
+      expect(lazy.force()).to.eql(Option.Some('default'))
+    })
+
+    it('do not modify the original lazy option', () => {
+      const lazy = LazyOption.fromOption(Option.Some(1))
+      lazy.map(n => n + 1)
+      expect(lazy.force()).to.eql(Option.Some(1))
+    })
+  })
+
+  describe('#force', () => {
+    it('memoizes the result', () => {
+      let calls = 0
+      const lazy = LazyOption.from(() => Option.Some(++calls)).map(n => n * 10)
+      expect(lazy.force()).to.eql(Option.Some(10))
+      expect(lazy.force()).to.eql(Option.Some(10))
+      expect(lazy.unwrap()).to.eql(10)
+      expect(calls).to.eql(1)
+    })
+
+    it('memoizes none results', () => {
+      let calls = 0
+      const lazy = LazyOption.from(() => {
+        calls++
+        return Option.None<number>()
+      })
+      lazy.force()
+      lazy.isNone()
+      expect(calls).to.eql(1)
+    })
+
+    it('executes the source once for all the derived instances', () => {
+      let calls = 0
+      const base = LazyOption.from(() => Option.Some(++calls))
+      const doubled = base.map(n => n * 2)
+      const filtered = base.filter(n => n > 5)
+      expect(base.force()).to.eql(Option.Some(1))
+      expect(doubled.force()).to.eql(Option.Some(2))
+      expect(filtered.force()).to.eql(Option.None())
+      expect(doubled.filter(n => n > 1).force()).to.eql(Option.Some(2))
+      expect(calls).to.eql(1)
+    })
+
+    it('returns a copy that cannot modify the memoized result', () => {
+      let calls = 0
+      const lazy = LazyOption.from(() => Option.Some(++calls))
+      lazy.force().take()
+      expect(lazy.isSome()).to.eql(true)
+      expect(lazy.force()).to.eql(Option.Some(1))
+      expect(calls).to.eql(1)
+    })
+  })
+
+  describe('#invalidate', () => {
+    it('makes the next access compute the value again', () => {
+      let calls = 0
+      const lazy = LazyOption.from(() => Option.Some(++calls))
+      expect(lazy.force()).to.eql(Option.Some(1))
+      expect(lazy.invalidate().force()).to.eql(Option.Some(2))
+      expect(lazy.force()).to.eql(Option.Some(2))
+    })
+  })
+
+  describe('unwrap methods', () => {
+    it('return the computed value', () => {
+      const some = LazyOption.fromOption(Option.Some(1))
+      const none = LazyOption.fromOption(Option.None<number>())
+      expect(some.isSome()).to.eql(true)
+      expect(none.isNone()).to.eql(true)
+      expect(some.unwrap()).to.eql(1)
+      expect(() => none.unwrap()).to.throw(Error)
+      expect(none.unwrapOr(2)).to.eql(2)
+      expect(none.unwrapOrElse(() => 3)).to.eql(3)
+    })
+  })
+})
@@ -0,0 +1,106 @@
+import {describe, it} from 'mocha'
+import {expect} from 'chai'
+import {OnceCell, Option, Result} from "../src/index.js"
+
+describe('OnceCell', () => {
+  describe('#get', () => {
+    it('returns none for an empty cell', () => {
+      expect(new OnceCell<number>().get()).to.eql(Option.None())
+    })
+
+    it('returns a copy that cannot modify the cell', () => {
+      const cell = new OnceCell<number>()
+      cell.set(1)
+      cell.get().take()
+      expect(cell.get()).to.eql(Option.Some(1))
+    })
+  })
+
+  describe('#set', () => {
+    it('stores the value the first time', () => {
+      const cell = new OnceCell<number>()
+      expect(cell.set(10)).to.eql(Result.Ok(undefined))
+      expect(cell.get()).to.eql(Option.Some(10))
+    })
+
+    it('fails if the cell is already initialized', () => {
+      const cell = new OnceCell<number>()
+      cell.set(10)
+      expect(cell.set(20)).to.eql(Result.Err(20))
+      expect(cell.get()).to.eql(Option.Some(10))
+    })
+  })
+
+  describe('#getOrInit', () => {
+    it('only calls the function when the cell is empty', () => {
+      const cell = new OnceCell<number>()
+      let calls = 0
+      expect(cell.getOrInit(() => ++calls)).to.eql(1)
+      expect(cell.getOrInit(() => ++calls)).to.eql(1)
+      expect(calls).to.eql(1)
+    })
+  })
+
+  describe('#getOrInitAsync', () => {
+    it('initializes the cell', async () => {
+      const cell = new OnceCell<string>()
+      expect(await cell.getOrInitAsync(async () => 'foo')).to.eql('foo')
+      expect(cell.get()).to.eql(Option.Some('foo'))
+    })
+
+    it('returns the existing value without calling the function', async () => {
+      const cell = new OnceCell<string>()
+      cell.set('foo')
+      let called = false
+      const value = await cell.getOrInitAsync(async () => {
+        called = true
+        return 'bar'
+      })
+      expect(value).to.eql('foo')
+      expect(called).to.eql(false)
+    })
+
+    it('deduplicates concurrent initializations', async () => {
+      const cell = new OnceCell<number>()
+      let calls = 0
+      const init = async () => {
+        calls++
+        await new Promise(resolve => setTimeout(resolve, 5))
+        return calls
+      }
+      const values = await Promise.all([cell.getOrInitAsync(init), cell.getOrInitAsync(init), cell.getOrInitAsync(init)])
+      expect(values).to.eql([1, 1, 1])
+      expect(calls).to.eql(1)
+    })
+
+    it('resets after a rejection', async () => {
+      const cell = new OnceCell<number>()
+      const failing = () => Promise.reject(new Error('boom'))
+      const results = await Promise.allSettled([cell.getOrInitAsync(failing), cell.getOrInitAsync(failing)])
+      expect(results.map(r => r.status)).to.eql(['rejected', 'rejected'])
+      expect(cell.get()).to.eql(Option.None())
+      expect(await cell.getOrInitAsync(async () => 2)).to.eql(2)
+    })
+
+    it('resets if the function throws synchronously', async () => {
+      const cell = new OnceCell<number>()
+      let error: unknown = null
+      try {
+        await cell.getOrInitAsync(() => {
+          throw new Error('boom')
+        })
+      } catch (e) {
+        error = e
+      }
+      expect(error).to.be.instanceOf(Error)
+      expect(await cell.getOrInitAsync(() => 3)).to.eql(3)
+    })
+
+    it('keeps the value set while the initialization was in progress', async () => {
+      const cell = new OnceCell<number>()
+      const pending = cell.getOrInitAsync(async () => 1)
+      cell.set(2)
+      expect(await pending).to.eql(2)
+    })
+  })
+})
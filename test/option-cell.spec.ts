@@ -0,0 +1,168 @@
+import {describe, it} from 'mocha'
+import {expect} from 'chai'
+import {Option, OptionCell} from "../src/index.js"
+
+describe('OptionCell', () => {
+  const record = <T>(cell: { subscribe: OptionCell<T>['subscribe'] }) => {
+    const events: [Option<T>, Option<T>][] = []
+    const unsubscribe = cell.subscribe((previous, next) => events.push([previous, next]))
+    return {events, unsubscribe}
+  }
+
+  describe('constructor', () => {
+    it('starts empty by default', () => {
+      expect(new OptionCell().get()).to.eql(Option.None())
+    })
+
+    it('can start with a value', () => {
+      expect(new OptionCell(Option.Some(1)).get()).to.eql(Option.Some(1))
+    })
+  })
+
+  describe('#get', () => {
+    it('returns a copy', () => {
+      const cell = new OptionCell(Option.Some(1))
+      cell.get().take()
+      expect(cell.get()).to.eql(Option.Some(1))
+    })
+  })
+
+  describe('mutations', () => {
+    it('insert notifies the previous and next options', () => {
+      const cell = new OptionCell<number>()
+      const {events} = record(cell)
+      expect(cell.insert(1)).to.eql(Option.Some(1))
+      expect(events).to.eql([[Option.None(), Option.Some(1)]])
+    })
+
+    it('take notifies and returns the previous option', () => {
+      const cell = new OptionCell(Option.Some(1))
+      const {events} = record(cell)
+      expect(cell.take()).to.eql(Option.Some(1))
+      expect(cell.get()).to.eql(Option.None())
+      expect(events).to.eql([[Option.Some(1), Option.None()]])
+    })
+
+    it('take over an empty cell does not notify', () => {
+      const cell = new OptionCell<number>()
+      const {events} = record(cell)
+      expect(cell.take()).to.eql(Option.None())
+      expect(events).to.eql([])
+    })
+
+    it('replace notifies and returns the previous option', () => {
+      const cell = new OptionCell(Option.Some(1))
+      const {events} = record(cell)
+      expect(cell.replace(2)).to.eql(Option.Some(1))
+      expect(events).to.eql([[Option.Some(1), Option.Some(2)]])
+    })
+
+    it('getOrInsert only notifies when the cell was empty', () => {
+      const cell = new OptionCell<number>()
+      const {events} = record(cell)
+      expect(cell.getOrInsert(1)).to.eql(1)
+      expect(cell.getOrInsert(2)).to.eql(1)
+      expect(cell.getOrInsertWith(() => 3)).to.eql(1)
+      expect(events).to.eql([[Option.None(), Option.Some(1)]])
+    })
+
+    it('set replaces the whole content', () => {
+      const cell = new OptionCell(Option.Some(1))
+      const {events} = record(cell)
+      expect(cell.set(Option.Some(2))).to.eql(Option.Some(1))
+      expect(cell.set(Option.None())).to.eql(Option.Some(2))
+      cell.set(Option.None())
+      expect(events).to.eql([[Option.Some(1), Option.Some(2)], [Option.Some(2), Option.None()]])
+    })
+  })
+
+  describe('#subscribe', () => {
+    it('returns a function that stops the notifications', () => {
+      const cell = new OptionCell<number>()
+      const {events, unsubscribe} = record(cell)
+      cell.insert(1)
+      unsubscribe()
+      cell.insert(2)
+      expect(events).to.eql([[Option.None(), Option.Some(1)]])
+    })
+
+    it('the same listener can be subscribed many times', () => {
+      const cell = new OptionCell<number>()
+      let calls = 0
+      const listener = () => {
+        calls++
+      }
+      const unsubscribe = cell.subscribe(listener)
+      cell.subscribe(listener)
+      unsubscribe()
+      cell.insert(1)
+      expect(calls).to.eql(1)
+    })
+  })
+
+  describe('#map', () => {
+    it('derives the current value', () => {
+      const cell = new OptionCell(Option.Some(2))
+      expect(cell.map(n => n * 2).get()).to.eql(Option.Some(4))
+    })
+
+    it('recomputes when the source changes', () => {
+      const cell = new OptionCell<number>()
+      const double = cell.map(n => n * 2)
+      const {events} = record(double)
+      cell.insert(1)
+      cell.replace(5)
+      cell.take()
+      expect(double.get()).to.eql(Option.None())
+      expect(events).to.eql([
+        [Option.None(), Option.Some(2)],
+        [Option.Some(2), Option.Some(10)],
+        [Option.Some(10), Option.None()]
+      ])
+    })
+
+    it('derived cells can be derived again', () => {
+      const cell = new OptionCell(Option.Some(1))
+      const str = cell.map(n => n + 1).map(n => n.toString())
+      cell.insert(9)
+      expect(str.get()).to.eql(Option.Some('10'))
+    })
+  })
+
+  describe('#dispose', () => {
+    it('stops a derived cell from receiving updates', () => {
+      const cell = new OptionCell(Option.Some(1))
+      let calls = 0
+      const double = cell.map(n => {
+        calls++
+        return n * 2
+      })
+      const {events} = record(double)
+      double.dispose()
+      cell.replace(5)
+      expect(double.get()).to.eql(Option.Some(2))
+      expect(events).to.eql([])
+      expect(calls).to.eql(1)
+    })
+
+    it('does not affect the source or other derived cells', () => {
+      const cell = new OptionCell(Option.Some(1))
+      const double = cell.map(n => n * 2)
+      const triple = cell.map(n => n * 3)
+      double.dispose()
+      cell.replace(2)
+      expect(cell.get()).to.eql(Option.Some(2))
+      expect(triple.get()).to.eql(Option.Some(6))
+    })
+
+    it('can be called many times', () => {
+      const cell = new OptionCell(Option.Some(1))
+      const double = cell.map(n => n * 2)
+      double.dispose()
+      double.dispose()
+      cell.dispose()
+      cell.replace(2)
+      expect(cell.get()).to.eql(Option.Some(2))
+    })
+  })
+})
@@ -0,0 +1,146 @@
+import {describe, it} from 'mocha'
+import {expect} from 'chai'
+import {
+  combineHashes,
+  Equatable,
+  equalsSymbol,
+  Hashable,
+  hashSymbol,
+  hashValue,
+  Option,
+  OptionKeyedMap,
+  OptionKeyedSet
+} from "../src/index.js"
+
+class Point implements Equatable, Hashable {
+  constructor (readonly x: number, readonly y: number) {}
+
+  [equalsSymbol] (other: unknown): boolean {
+    return other instanceof Point && this.x === other.x && this.y === other.y
+  }
+
+  [hashSymbol] (): number {
+    return combineHashes(hashValue(this.x), hashValue(this.y))
+  }
+}
+
+describe('hashValue', () => {
+  it('hashes primitives by content', () => {
+    expect(hashValue('foo')).to.eql(hashValue('foo'))
+    expect(hashValue(10)).to.eql(hashValue(10))
+    expect(hashValue(1.5)).to.eql(hashValue(1.5))
+    expect(hashValue(NaN)).to.eql(hashValue(NaN))
+    expect(hashValue(0)).to.eql(hashValue(-0))
+    expect(hashValue('foo')).not.to.eql(hashValue('bar'))
+  })
+
+  it('hashes objects by identity', () => {
+    const obj = {}
+    expect(hashValue(obj)).to.eql(hashValue(obj))
+    expect(hashValue({})).not.to.eql(hashValue({}))
+  })
+
+  it('uses the Hashable protocol when implemented', () => {
+    expect(hashValue(new Point(1, 2))).to.eql(hashValue(new Point(1, 2)))
+  })
+
+  it('all nones have the same hash', () => {
+    expect(hashValue(Option.None())).to.eql(hashValue(Option.None<number>()))
+  })
+
+  it('somes with the same value have the same hash', () => {
+    expect(hashValue(Option.Some(1))).to.eql(hashValue(Option.Some(1)))
+    expect(hashValue(Option.Some(Option.Some('a')))).to.eql(hashValue(Option.Some(Option.Some('a'))))
+    expect(hashValue(Option.Some(1))).not.to.eql(hashValue(Option.None()))
+  })
+})
+
+describe('OptionKeyedMap', () => {
+  it('finds entries with equal keys', () => {
+    const map = new OptionKeyedMap<number, string>()
+    map.set(Option.Some(1), 'one')
+    expect(map.get(Option.Some(1))).to.eql(Option.Some('one'))
+    expect(map.has(Option.Some(1))).to.eql(true)
+    expect(map.get(Option.Some(2))).to.eql(Option.None())
+  })
+
+  it('all nones are the same key', () => {
+    const map = new OptionKeyedMap<number, string>([[Option.None(), 'a'], [Option.None(), 'b']])
+    expect(map.size).to.eql(1)
+    expect(map.get(Option.None())).to.eql(Option.Some('b'))
+  })
+
+  it('compares nested options by content', () => {
+    const map = new OptionKeyedMap<Option<number>, string>()
+    map.set(Option.Some(Option.Some(1)), 'nested')
+    expect(map.get(Option.Some(Option.Some(1)))).to.eql(Option.Some('nested'))
+    expect(map.get(Option.Some(Option.None()))).to.eql(Option.None())
+  })
+
+  it('uses Equatable and Hashable values', () => {
+    const map = new OptionKeyedMap([[Option.Some(new Point(1, 2)), 'p']])
+    expect(map.get(Option.Some(new Point(1, 2)))).to.eql(Option.Some('p'))
+  })
+
+  it('can use a custom equality', () => {
+    const map = new OptionKeyedMap<{ id: number }, string>([], {
+      equality: (a, b) => a.id === b.id,
+      hash: a => hashValue(a.id)
+    })
+    map.set(Option.Some({id: 1}), 'one')
+    expect(map.get(Option.Some({id: 1}))).to.eql(Option.Some('one'))
+  })
+
+  it('deletes entries', () => {
+    const map = new OptionKeyedMap<number, string>([[Option.Some(1), 'one'], [Option.None(), 'none']])
+    expect(map.delete(Option.Some(1))).to.eql(true)
+    expect(map.delete(Option.Some(1))).to.eql(false)
+    expect(map.size).to.eql(1)
+    map.clear()
+    expect(map.size).to.eql(0)
+  })
+
+  it('iterates in insertion order', () => {
+    const map = new OptionKeyedMap<number, string>()
+    map.set(Option.Some(2), 'two').set(Option.None(), 'none').set(Option.Some(1), 'one').set(Option.Some(2), 'TWO')
+    expect([...map.keys()]).to.eql([Option.Some(2), Option.None(), Option.Some(1)])
+    expect([...map.values()]).to.eql(['TWO', 'none', 'one'])
+    expect([...map.entries()]).to.eql([...map])
+  })
+
+  it('is not affected by mutations of the inserted key', () => {
+    const map = new OptionKeyedMap<number, string>()
+    const key = Option.Some(1)
+    map.set(key, 'one')
+    key.insert(2)
+    expect(map.get(Option.Some(1))).to.eql(Option.Some('one'))
+    expect(map.get(Option.Some(2)).isNone()).to.eql(true)
+    expect(map.size).to.eql(1)
+  })
+
+  it('stores frozen keys', () => {
+    const map = new OptionKeyedMap<number, string>([[Option.Some(1), 'one']])
+    const [key] = [...map.keys()]
+    expect(key.isFrozen()).to.eql(true)
+    expect(() => key.take()).to.throw(Error)
+  })
+})
+
+describe('OptionKeyedSet', () => {
+  it('collapses equal elements', () => {
+    const set = new OptionKeyedSet([Option.Some(1), Option.Some(1), Option.None(), Option.None()])
+    expect(set.size).to.eql(2)
+    expect(set.has(Option.Some(1))).to.eql(true)
+    expect(set.has(Option.None())).to.eql(true)
+    expect(set.has(Option.Some(2))).to.eql(false)
+  })
+
+  it('adds and deletes elements', () => {
+    const set = new OptionKeyedSet<string>()
+    set.add(Option.Some('a')).add(Option.Some('b'))
+    expect(set.delete(Option.Some('a'))).to.eql(true)
+    expect([...set]).to.eql([Option.Some('b')])
+    set.clear()
+    expect(set.size).to.eql(0)
+  })
+})
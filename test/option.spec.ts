@@ -1,6 +1,6 @@
 import {describe, it} from 'mocha'
 import {expect} from 'chai'
-import {Option} from "../src/index.js"
+import {assertSome, AsyncOption, None, Option, ReadonlyOption, Some, UnwrapNoneError} from "../src/index.js"
 
 describe('Option', () => {
   describe('#isSome', () => {
@@ -135,6 +135,18 @@ describe('Option', () => {
       expect(none.isNone()).to.eq(true)
     })
 
+    it('None.unwrap throws an UnwrapNoneError with a stable code', () => {
+      let error: unknown = null
+      try {
+        Option.None().unwrap()
+      } catch (e) {
+        error = e
+      }
+      expect(error).to.be.instanceOf(UnwrapNoneError)
+      expect((error as UnwrapNoneError).code).to.eql('ERR_UNWRAP_NONE')
+      expect((error as UnwrapNoneError).name).to.eql('UnwrapNoneError')
+    })
+
     it('Some.unwrap returns the contained value', () => {
       const obj = {}
       const none = Option.Some(obj)
@@ -156,6 +168,68 @@ describe('Option', () => {
       const some = Option.Some(obj)
       expect(some.expect(err)).to.equal(obj)
     })
+
+    it('None.expect with a message throws an UnwrapNoneError', () => {
+      expect(() => Option.None().expect('missing')).to.throw(UnwrapNoneError, 'missing')
+    })
+
+    it('the message can be followed by error options with a cause', () => {
+      const cause = new Error('root cause')
+      let error: unknown = null
+      try {
+        Option.None().expect('missing', {cause})
+      } catch (e) {
+        error = e
+      }
+      expect((error as Error).cause).to.equal(cause)
+    })
+
+    it('uses the cause recorded in a None of the chain', () => {
+      const cause = new UnwrapNoneError('user without address')
+      const user = Option.Some({ address: Option.None<{ city: string }>() })
+      const city = user
+        .andThen(u => u.address.or(Option.None({ cause })))
+        .map(address => address.city)
+      expect(() => city.expect('city is required')).to.throw(UnwrapNoneError, 'city is required')
+        .with.property('cause', cause)
+      expect(() => city.unwrap()).to.throw(UnwrapNoneError).with.property('cause', cause)
+    })
+
+    it('prefers the cause given to expect', () => {
+      const own = new Error('own cause')
+      const none = Option.None({ cause: new Error('recorded cause') })
+      expect(() => none.expect('missing', { cause: own })).to.throw(UnwrapNoneError).with.property('cause', own)
+    })
+
+    it('passes the recorded cause to error factories', () => {
+      const cause = new Error('recorded cause')
+      const none = Option.None({ cause })
+      expect(() => none.expect(c => new Error('wrapped', { cause: c }))).to.throw('wrapped').with.property('cause', cause)
+    })
+
+    it('None.expect with a factory throws the created error', () => {
+      expect(() => Option.None().expect(() => new RangeError('out'))).to.throw(RangeError, 'out')
+    })
+
+    it('None.expect with an error class creates it with the given args', () => {
+      class NotFoundError extends Error {
+        constructor (readonly entity: string, readonly id: number) {
+          super(`${entity} ${id} not found`)
+        }
+      }
+      expect(() => Option.None().expect(NotFoundError, 'user', 1)).to.throw(NotFoundError, 'user 1 not found')
+      expect(() => Option.None().expect(TypeError, 'bad type')).to.throw(TypeError, 'bad type')
+    })
+
+    it('Some.expect does not build the error', () => {
+      let called = false
+      const value = Option.Some(1).expect(() => {
+        called = true
+        return new Error()
+      })
+      expect(value).to.eql(1)
+      expect(called).to.eql(false)
+    })
   })
 
   describe('#unwrap_or', () => {
@@ -991,4 +1065,868 @@ describe('Option', () => {
       expect(called).to.eql(true)
     })
   })
-})
\ No newline at end of file
+  describe('#okOr', () => {
+    it('Some returns Ok with the value', () => {
+      const res = Option.Some(10).okOr('missing')
+      expect(res.unwrap()).to.eql(10)
+    })
+
+    it('None returns Err with the given error', () => {
+      const res = Option.None().okOr('missing')
+      expect(res.unwrapErr()).to.eql('missing')
+    })
+  })
+
+  describe('#okOrElse', () => {
+    it('Some returns Ok and does not call the fn', () => {
+      const res = Option.Some(10).okOrElse(() => expect.fail('should not be called'))
+      expect(res.unwrap()).to.eql(10)
+    })
+
+    it('None returns Err with the generated error', () => {
+      const res = Option.None().okOrElse(() => 'missing')
+      expect(res.unwrapErr()).to.eql('missing')
+    })
+  })
+  describe('.fromPromise', () => {
+    it('resolves to Some with the value of the promise', async () => {
+      const opt = await Option.fromPromise(Promise.resolve(10))
+      expect(opt.unwrap()).to.eql(10)
+    })
+
+    it('can transform rejections into None', async () => {
+      const opt = await Option.fromPromise(Promise.reject(new Error('boom'))).noneOnReject()
+      expect(opt.isNone()).to.eql(true)
+    })
+  })
+
+  describe('#transposePromise', () => {
+    it('None resolves to None', async () => {
+      const none = Option.None<Promise<number>>()
+      const res = await none.transposePromise()
+      expect(res.isNone()).to.eql(true)
+    })
+
+    it('Some of a promise resolves to Some of the value', async () => {
+      const some = Option.Some(Promise.resolve(10))
+      const res = await some.transposePromise()
+      expect(res.unwrap()).to.eql(10)
+    })
+  })
+
+  describe('#toPromise', () => {
+    it('Some resolves to the value', async () => {
+      const res = await Option.Some('foo').toPromise(new Error('no value'))
+      expect(res).to.eql('foo')
+    })
+
+    it('None rejects with the given error', async () => {
+      const err = new Error('no value')
+      let error: unknown = null
+      try {
+        await Option.None().toPromise(err)
+      } catch (e) {
+        error = e
+      }
+      expect(error).to.equal(err)
+    })
+  })
+  describe('.gen', () => {
+    it('returns Some with the returned value when all the options are Some', () => {
+      const res = Option.gen(function* ($) {
+        const a = yield* $(Option.Some(3))
+        const b = yield* $(Option.Some('a'))
+        return b.repeat(a)
+      })
+      expect(res.unwrap()).to.eql('aaa')
+    })
+
+    it('short-circuits at the first None', () => {
+      let reached = false
+      const res = Option.gen(function* ($) {
+        const a = yield* $(Option.Some(1))
+        const b = yield* $(Option.None<number>())
+        reached = true
+        return a + b
+      })
+      expect(res.isNone()).to.eql(true)
+      expect(reached).to.eql(false)
+    })
+
+    it('allows later steps to use previous values', () => {
+      const lookup = (n: number) => Option.Some(n * 10)
+      const res = Option.gen(function* ($) {
+        const a = yield* $(Option.Some(1))
+        const b = yield* $(lookup(a))
+        return a + b
+      })
+      expect(res.unwrap()).to.eql(11)
+    })
+
+    it('runs finally blocks when short-circuiting', () => {
+      let cleaned = false
+      Option.gen(function* ($) {
+        try {
+          return yield* $(Option.None<number>())
+        } finally {
+          cleaned = true
+        }
+      })
+      expect(cleaned).to.eql(true)
+    })
+
+    it('only accepts options as yielded values', () => {
+      // Only checked by the compiler, the body is never executed.
+      const unsafe = () =>
+        // @ts-expect-error yielded values have to be options
+        Option.gen(function* () {
+          yield 42
+          return 'x'
+        })
+      expect(unsafe).to.be.a('function')
+    })
+  })
+
+  describe('.genAsync', () => {
+    it('returns Some with the returned value when all the options are Some', async () => {
+      const res = await Option.genAsync(async function* ($) {
+        const a = yield* $(Option.Some(3))
+        const b = yield* $(Promise.resolve(Option.Some('a')))
+        const c = yield* $(AsyncOption.fromOption(Option.Some('b')))
+        return b.repeat(a) + c
+      })
+      expect(res.unwrap()).to.eql('aaab')
+    })
+
+    it('short-circuits at the first None', async () => {
+      let reached = false
+      const res = await Option.genAsync(async function* ($) {
+        const a = yield* $(Option.Some(1))
+        const b = yield* $(AsyncOption.fromOption(Option.None<number>()))
+        reached = true
+        return a + b
+      })
+      expect(res.isNone()).to.eql(true)
+      expect(reached).to.eql(false)
+    })
+
+    it('short-circuits when a promise resolves to None', async () => {
+      const res = await Option.genAsync(async function* ($) {
+        const a: number = yield* $(Promise.resolve(Option.None<number>()))
+        return a
+      })
+      expect(res.isNone()).to.eql(true)
+    })
+
+    it('only accepts options as yielded values', () => {
+      // Only checked by the compiler, the body is never executed.
+      const unsafe = () =>
+        // @ts-expect-error yielded values have to be options
+        Option.genAsync(async function* () {
+          yield 42
+          return 'x'
+        })
+      expect(unsafe).to.be.a('function')
+    })
+  })
+
+  describe('#match', () => {
+    it('Some executes the some branch with the value', () => {
+      const res = Option.Some(5).match({
+        some: n => n * 2,
+        none: () => expect.fail('should not be called')
+      })
+      expect(res).to.eql(10)
+    })
+
+    it('None executes the none branch', () => {
+      const res = Option.None<number>().match({
+        some: () => expect.fail('should not be called'),
+        none: () => 0
+      })
+      expect(res).to.eql(0)
+    })
+  })
+
+  describe('.matchAll', () => {
+    const matcher = {
+      someSome: (n: number, s: string) => s.repeat(n),
+      someNone: (n: number) => `only ${n}`,
+      noneSome: (s: string) => `only ${s}`,
+      noneNone: () => 'nothing'
+    }
+
+    it('executes someSome when both are Some', () => {
+      const res = Option.matchAll([Option.Some(2), Option.Some('a')], matcher)
+      expect(res).to.eql('aa')
+    })
+
+    it('executes someNone when only the first is Some', () => {
+      const res = Option.matchAll([Option.Some(2), Option.None<string>()], matcher)
+      expect(res).to.eql('only 2')
+    })
+
+    it('executes noneSome when only the second is Some', () => {
+      const res = Option.matchAll([Option.None<number>(), Option.Some('a')], matcher)
+      expect(res).to.eql('only a')
+    })
+
+    it('executes noneNone when both are None', () => {
+      const res = Option.matchAll([Option.None<number>(), Option.None<string>()], matcher)
+      expect(res).to.eql('nothing')
+    })
+  })
+  describe('type guards', () => {
+    it('#isSome narrows to Some allowing to call #get', () => {
+      const opt: Option<number> = Option.Some(10)
+      if (opt.isSome()) {
+        expect(opt.get()).to.eql(10)
+      } else {
+        expect.fail('should be some')
+      }
+    })
+
+    it('#get cannot be called over options that were not narrowed', () => {
+      const opt: Option<number> = Option.Some(10)
+      // @ts-expect-error option is not narrowed
+      expect(opt.get()).to.eql(10)
+    })
+
+    it('#isNone narrows to None', () => {
+      const opt: Option<number> = Option.None()
+      if (opt.isNone()) {
+        const none: None<number> = opt
+        expect(none.isNone()).to.eql(true)
+      } else {
+        expect.fail('should be none')
+      }
+    })
+
+    it('negating #isSome narrows the rest of the block after an early return', () => {
+      const orZero = (opt: Option<number>): number => {
+        if (!opt.isSome()) {
+          return 0
+        }
+        return opt.get()
+      }
+      expect(orZero(Option.Some(10))).to.eql(10)
+      expect(orZero(Option.None())).to.eql(0)
+    })
+
+    it('assertSome narrows the rest of the block', () => {
+      const double = (opt: Option<number>): number => {
+        assertSome(opt)
+        return opt.get() * 2
+      }
+      expect(double(Option.Some(10))).to.eql(20)
+      expect(() => double(Option.None())).to.throw(Error, 'assertSome over None.')
+    })
+
+    it('#isNone does not narrow the other branch', () => {
+      const orZero = (opt: Option<number>): number => {
+        if (opt.isNone()) {
+          return 0
+        }
+        // @ts-expect-error Option is not a union, so it is not narrowed to Some
+        return opt.get()
+      }
+      expect(orZero(Option.Some(10))).to.eql(10)
+    })
+
+    it('#isSomeAnd narrows using the type guard predicate', () => {
+      const opt: Option<string | number> = Option.Some(10)
+      if (opt.isSomeAnd((v): v is number => typeof v === 'number')) {
+        const n: number = opt.get()
+        expect(n).to.eql(10)
+      } else {
+        expect.fail('should be some')
+      }
+    })
+
+    it('functions can require Some arguments', () => {
+      const onlySome = (opt: Some<number>): number => opt.get() + 1
+      const opt = Option.Some(1)
+      // @ts-expect-error option is not narrowed
+      expect(() => onlySome(Option.None())).to.throw()
+      if (opt.isSome()) {
+        expect(onlySome(opt)).to.eql(2)
+      }
+    })
+  })
+
+  describe('#filter with type guards', () => {
+    it('narrows the type of the option', () => {
+      const opt: Option<string | number> = Option.Some(10)
+      const numOpt: Option<number> = opt.filter((v): v is number => typeof v === 'number')
+      expect(numOpt.unwrap()).to.eql(10)
+    })
+
+    it('returns None when the guard fails', () => {
+      const opt: Option<string | number> = Option.Some('foo')
+      const numOpt: Option<number> = opt.filter((v): v is number => typeof v === 'number')
+      expect(numOpt.isNone()).to.eql(true)
+    })
+  })
+  describe('.all', () => {
+    it('returns Some with all the values when every option is Some', () => {
+      expect(Option.all([Option.Some(1), Option.Some(2)])).to.eql(Option.Some([1, 2]))
+    })
+
+    it('returns None when any option is None', () => {
+      expect(Option.all([Option.Some(1), Option.None<number>()])).to.eql(Option.None())
+    })
+
+    it('returns Some of an empty list for empty input', () => {
+      expect(Option.all([])).to.eql(Option.Some([]))
+    })
+  })
+
+  describe('.allRecord', () => {
+    it('returns Some with a record of values when every option is Some', () => {
+      const res: Option<{ a: number, b: string }> = Option.allRecord({ a: Option.Some(1), b: Option.Some('foo') })
+      expect(res).to.eql(Option.Some({ a: 1, b: 'foo' }))
+    })
+
+    it('returns None when any option is None', () => {
+      expect(Option.allRecord({ a: Option.Some(1), b: Option.None() })).to.eql(Option.None())
+    })
+  })
+
+  describe('.any', () => {
+    it('returns the first Some', () => {
+      expect(Option.any([Option.None(), Option.Some(1), Option.Some(2)])).to.eql(Option.Some(1))
+    })
+
+    it('returns None when every option is None', () => {
+      expect(Option.any([Option.None(), Option.None()])).to.eql(Option.None())
+    })
+  })
+
+  describe('.anyRecord', () => {
+    it('returns the first Some following the order of the keys', () => {
+      const res = Option.anyRecord({ a: Option.None<string>(), b: Option.Some('foo'), c: Option.Some('bar') })
+      expect(res).to.eql(Option.Some('foo'))
+    })
+  })
+
+  describe('.traverse', () => {
+    const parse = (s: string) => Option.Some(Number(s)).filter(n => !isNaN(n))
+
+    it('returns Some with the transformed values when every result is Some', () => {
+      expect(Option.traverse(['1', '2'], parse)).to.eql(Option.Some([1, 2]))
+    })
+
+    it('stops at the first None', () => {
+      const calls: string[] = []
+      const res = Option.traverse(['1', 'foo', '3'], s => {
+        calls.push(s)
+        return parse(s)
+      })
+      expect(res).to.eql(Option.None())
+      expect(calls).to.eql(['1', 'foo'])
+    })
+  })
+
+  describe('.traverseRecord', () => {
+    const parse = (s: string) => Option.Some(Number(s)).filter(n => !isNaN(n))
+
+    it('returns Some with a record of transformed values', () => {
+      expect(Option.traverseRecord({ a: '1', b: '2' }, parse)).to.eql(Option.Some({ a: 1, b: 2 }))
+    })
+
+    it('returns None if any result is None', () => {
+      expect(Option.traverseRecord({ a: '1', b: 'foo' }, parse)).to.eql(Option.None())
+    })
+
+    it('sends the key to the fn', () => {
+      const res = Option.traverseRecord({ a: 1 }, (v, k) => Option.Some(`${String(k)}${v}`))
+      expect(res).to.eql(Option.Some({ a: 'a1' }))
+    })
+  })
+
+  describe('.compact', () => {
+    it('keeps only the values of the Somes', () => {
+      expect(Option.compact([Option.Some(1), Option.None(), Option.Some(3)])).to.eql([1, 3])
+    })
+  })
+
+  describe('.compactRecord', () => {
+    it('keeps only the keys of the Somes', () => {
+      expect(Option.compactRecord({ a: Option.Some(1), b: Option.None() })).to.eql({ a: 1 })
+    })
+  })
+
+  describe('.partition', () => {
+    it('returns the values of the Somes and the amount of Nones', () => {
+      expect(Option.partition([Option.Some(1), Option.None(), Option.Some(3)])).to.eql([[1, 3], 1])
+    })
+  })
+
+  describe('.partitionRecord', () => {
+    it('returns a record with the Somes and the amount of Nones', () => {
+      expect(Option.partitionRecord({ a: Option.Some(1), b: Option.None(), c: Option.None() })).to.eql([{ a: 1 }, 2])
+    })
+  })
+  describe('.zipAll', () => {
+    it('returns Some with a tuple of values when every option is Some', () => {
+      const res: Option<[number, string, boolean]> = Option.zipAll(Option.Some(1), Option.Some('foo'), Option.Some(true))
+      expect(res.unwrap()).to.eql([1, 'foo', true])
+    })
+
+    it('returns None if any option is None', () => {
+      const res = Option.zipAll(Option.Some(1), Option.None<string>(), Option.Some(true))
+      expect(res.isNone()).to.eql(true)
+    })
+  })
+
+  describe('#zipWith with many options', () => {
+    it('applies the fn to all the values when every option is Some', () => {
+      const res = Option.Some(2).zipWith(Option.Some('a'), Option.Some('b'), (n, a, b) => (a + b).repeat(n))
+      expect(res.unwrap()).to.eql('abab')
+    })
+
+    it('returns None without calling the fn if any option is None', () => {
+      const res = Option.Some(2).zipWith(
+          Option.Some('a'),
+          Option.None<string>(),
+          (_n, _a, _b) => expect.fail('should not be called')
+      )
+      expect(res.isNone()).to.eql(true)
+    })
+  })
+  describe('#[Symbol.iterator]', () => {
+    it('Some produces its value once', () => {
+      const values: number[] = []
+      for (const value of Option.Some(1)) {
+        values.push(value)
+      }
+      expect(values).to.eql([1])
+    })
+
+    it('None produces nothing', () => {
+      const values: number[] = []
+      for (const value of Option.None<number>()) {
+        values.push(value)
+      }
+      expect(values).to.eql([])
+    })
+
+    it('can be spread and destructured', () => {
+      expect([...Option.Some(1), ...Option.None<number>(), ...Option.Some(3)]).to.eql([1, 3])
+      const [first] = Option.Some('foo')
+      expect(first).to.eql('foo')
+    })
+
+    it('can be iterated many times', () => {
+      const some = Option.Some(1)
+      expect([...some]).to.eql([1])
+      expect([...some]).to.eql([1])
+    })
+
+    it('produces the values with yield* inside regular generators', () => {
+      function* values<T> (opts: Option<T>[]): Generator<T> {
+        for (const opt of opts) {
+          yield* opt
+        }
+      }
+      expect([...values([Option.Some(1), Option.None<number>(), Option.Some(3)])]).to.eql([1, 3])
+    })
+  })
+
+  describe('.unfold', () => {
+    it('generates values until the fn returns None', () => {
+      const res = Option.unfold(3, n => Option.Some<[number, number]>([n, n - 1]).filter(() => n > 0))
+      expect([...res]).to.eql([3, 2, 1])
+    })
+  })
+  describe('#equalsDeep', () => {
+    it('returns true for 2 nones', () => {
+      expect(Option.None().equalsDeep(Option.None())).to.eql(true)
+    })
+
+    it('returns false for some and none', () => {
+      expect(Option.Some(1).equalsDeep(Option.None())).to.eql(false)
+      expect(Option.None<number>().equalsDeep(Option.Some(1))).to.eql(false)
+    })
+
+    it('compares the values of 2 somes structurally', () => {
+      expect(Option.Some({id: 1}).equalsDeep(Option.Some({id: 1}))).to.eql(true)
+      expect(Option.Some({id: 1}).equalsDeep(Option.Some({id: 2}))).to.eql(false)
+    })
+
+    it('compares nested options', () => {
+      const some = Option.Some(Option.Some([1, 2]))
+      expect(some.equalsDeep(Option.Some(Option.Some([1, 2])))).to.eql(true)
+      expect(some.equalsDeep(Option.Some(Option.None()))).to.eql(false)
+    })
+  })
+  describe('#compare', () => {
+    it('2 nones are equivalent', () => {
+      expect(Option.None().compare(Option.None())).to.eql(0)
+    })
+
+    it('none is less than some', () => {
+      expect(Option.None<number>().compare(Option.Some(1))).to.be.lessThan(0)
+      expect(Option.Some(1).compare(Option.None())).to.be.greaterThan(0)
+    })
+
+    it('compares the values of 2 somes', () => {
+      expect(Option.Some(1).compare(Option.Some(2))).to.be.lessThan(0)
+      expect(Option.Some(2).compare(Option.Some(2))).to.eql(0)
+      expect(Option.Some('b').compare(Option.Some('a'))).to.be.greaterThan(0)
+    })
+
+    it('can use a custom comparator', () => {
+      expect(Option.Some('aa').compare(Option.Some('b'), (a, b) => a.length - b.length)).to.be.greaterThan(0)
+    })
+  })
+
+  describe('.comparator', () => {
+    it('places nones first by default', () => {
+      const opts = [Option.Some(2), Option.None<number>(), Option.Some(1)]
+      expect(opts.sort(Option.comparator())).to.eql([Option.None(), Option.Some(1), Option.Some(2)])
+    })
+
+    it('can place nones last', () => {
+      const opts = [Option.None<number>(), Option.Some(2), Option.Some(1)]
+      expect(opts.sort(Option.comparator((a, b) => b - a, {noneLast: true})))
+        .to.eql([Option.Some(2), Option.Some(1), Option.None()])
+    })
+  })
+
+  describe('#min', () => {
+    it('returns the lesser option', () => {
+      expect(Option.Some(1).min(Option.Some(2))).to.eql(Option.Some(1))
+      expect(Option.Some(3).min(Option.Some(2))).to.eql(Option.Some(2))
+      expect(Option.Some(1).min(Option.None())).to.eql(Option.None())
+    })
+
+    it('returns a new option', () => {
+      const x = Option.Some(1)
+      const y = Option.Some(2)
+      const min = x.min(y)
+      expect(min).not.to.equal(x)
+      min.take()
+      expect(x).to.eql(Option.Some(1))
+      expect(Option.Some(2).min(y)).not.to.equal(y)
+    })
+  })
+
+  describe('#max', () => {
+    it('returns the greater option', () => {
+      expect(Option.Some(1).max(Option.Some(2))).to.eql(Option.Some(2))
+      expect(Option.Some(3).max(Option.Some(2))).to.eql(Option.Some(3))
+      expect(Option.None<number>().max(Option.Some(1))).to.eql(Option.Some(1))
+    })
+
+    it('returns a new option', () => {
+      const x = Option.Some(1)
+      const y = Option.Some(2)
+      const max = x.max(y)
+      expect(max).not.to.equal(y)
+      max.take()
+      expect(y).to.eql(Option.Some(2))
+      expect(Option.Some(3).max(x)).not.to.equal(x)
+    })
+  })
+
+  describe('#clamp', () => {
+    it('restricts the value to the interval', () => {
+      expect(Option.Some(10).clamp(1, 5)).to.eql(Option.Some(5))
+      expect(Option.Some(0).clamp(1, 5)).to.eql(Option.Some(1))
+      expect(Option.Some(3).clamp(1, 5)).to.eql(Option.Some(3))
+    })
+
+    it('none stays none', () => {
+      expect(Option.None<number>().clamp(1, 5)).to.eql(Option.None())
+    })
+
+    it('throws if min is greater than max', () => {
+      expect(() => Option.Some(3).clamp(5, 1)).to.throw(Error)
+    })
+  })
+  describe('#combine', () => {
+    const sum = (a: number, b: number) => a + b
+
+    it('combines the values of 2 somes', () => {
+      expect(Option.Some(1).combine(Option.Some(2), sum)).to.eql(Option.Some(3))
+    })
+
+    it('treats none as identity', () => {
+      expect(Option.Some(1).combine(Option.None(), sum)).to.eql(Option.Some(1))
+      expect(Option.None<number>().combine(Option.Some(2), sum)).to.eql(Option.Some(2))
+      expect(Option.None<number>().combine(Option.None(), sum)).to.eql(Option.None())
+    })
+
+    it('does not call the fn if any is none', () => {
+      let called = false
+      Option.Some(1).combine(Option.None(), () => {
+        called = true
+        return 0
+      })
+      expect(called).to.eql(false)
+    })
+
+    it('returns a new option that does not alias the inputs', () => {
+      const some = Option.Some(1)
+      const none = Option.None<number>()
+      some.combine(none, sum).take()
+      none.combine(some, sum).take()
+      expect(some).to.eql(Option.Some(1))
+      none.combine(Option.None(), sum).insert(3)
+      expect(none.isNone()).to.eql(true)
+    })
+  })
+
+  describe('.combineAll', () => {
+    it('combines the values of all the somes', () => {
+      const opts = [Option.Some('a'), Option.None<string>(), Option.Some('b')]
+      expect(Option.combineAll(opts, (a, b) => a + b)).to.eql(Option.Some('ab'))
+    })
+
+    it('returns none if there are no somes', () => {
+      expect(Option.combineAll<string>([], (a, b) => a + b)).to.eql(Option.None())
+    })
+  })
+  describe('#asReadonly', () => {
+    it('returns the same instance', () => {
+      const opt = Option.Some(1)
+      expect(opt.asReadonly()).to.equal(opt)
+    })
+
+    it('does not expose the mutating methods', () => {
+      const opt = Option.Some(1).asReadonly()
+      // @ts-expect-error take is not part of the read only api
+      expect(opt.take).to.be.a('function')
+    })
+
+    it('does not expose takeIf', () => {
+      const opt = Option.Some(1).asReadonly()
+      // @ts-expect-error takeIf is not part of the read only api
+      expect(opt.takeIf).to.be.a('function')
+    })
+
+    it('takeIf cannot empty a frozen option', () => {
+      const opt = Option.Some(1).freeze()
+      // @ts-expect-error takeIf is not part of the read only api
+      expect(() => opt.takeIf(() => true)).to.throw('Cannot mutate a frozen option.')
+      expect(opt).to.eql(Option.Some(1))
+    })
+
+    it('is covariant', () => {
+      interface Animal { name: string }
+      interface Dog extends Animal { bark: () => string }
+      const dog: ReadonlyOption<Dog> = Option.Some({name: 'rex', bark: () => 'woof'}).asReadonly()
+      const animal: ReadonlyOption<Animal> = dog
+      expect(animal.map(a => a.name)).to.eql(Option.Some('rex'))
+    })
+
+    it('keeps the read only type through methods that can return the same instance', () => {
+      const opt = Option.Some(1).asReadonly()
+      const noop = () => undefined
+      // @ts-expect-error take is not reachable through or
+      expect(opt.or(Option.None()).take).to.be.a('function')
+      // @ts-expect-error insert is not reachable through or with a read only argument
+      expect(Option.None<number>().or(opt).insert).to.be.a('function')
+      // @ts-expect-error take is not reachable through and with a read only argument
+      expect(Option.Some(2).and(opt).take).to.be.a('function')
+      // @ts-expect-error take is not reachable through ifSome
+      expect(opt.ifSome(noop).take).to.be.a('function')
+      // @ts-expect-error insert is not reachable through ifNone
+      expect(opt.ifNone(noop).insert).to.be.a('function')
+    })
+
+    it('can be passed to the methods that only read the other option', () => {
+      const one = Option.Some(1).asReadonly()
+      const none = Option.None<number>().freeze()
+      expect(Option.Some(1).equals(one)).to.eql(true)
+      expect(Option.Some(1).equalsWith(one, (a, b) => a === b)).to.eql(true)
+      expect(Option.Some(1).equalsDeep(one)).to.eql(true)
+      expect(none.or(one)).to.eql(Option.Some(1))
+      expect(one.zip(one)).to.eql(Option.Some([1, 1]))
+      expect(one.zipWith(one, (a, b) => a + b)).to.eql(Option.Some(2))
+      expect(one.and(none)).to.eql(Option.None())
+      expect(one.xor(none)).to.eql(Option.Some(1))
+      expect(one.combine(one, (a, b) => a + b)).to.eql(Option.Some(2))
+      expect(none.compare(one)).to.eql(-1)
+      expect(one.min(none)).to.eql(Option.None())
+      expect(none.max(one)).to.eql(Option.Some(1))
+    })
+
+    it('keeps the mutable type for mutable options', () => {
+      const opt = Option.Some(1)
+      expect(opt.ifSome(() => undefined).or(Option.None()).take()).to.eql(Option.Some(1))
+    })
+
+    it('xor, combine, min and max return new options', () => {
+      const opt = Option.Some(1).asReadonly()
+      opt.xor(Option.None()).take()
+      opt.combine(Option.None(), (a, b) => a + b).take()
+      opt.min(Option.Some(2)).take()
+      opt.max(Option.None()).take()
+      expect(opt).to.eql(Option.Some(1))
+    })
+  })
+
+  describe('#freeze', () => {
+    it('forbids mutations', () => {
+      const some = Option.Some(1)
+      some.freeze()
+      expect(() => some.insert(2)).to.throw('Cannot mutate a frozen option.')
+      expect(() => some.take()).to.throw('Cannot mutate a frozen option.')
+      expect(() => some.replace(2)).to.throw('Cannot mutate a frozen option.')
+      expect(() => some.getOrInsert(2)).to.throw('Cannot mutate a frozen option.')
+      expect(() => some.getOrInsertWith(() => 2)).to.throw('Cannot mutate a frozen option.')
+      expect(some).to.eql(Option.Some(1))
+    })
+
+    it('keeps the non mutating methods working', () => {
+      const none = Option.None<number>().freeze()
+      expect(none.map(n => n + 1)).to.eql(Option.None())
+      expect(none.unwrapOr(3)).to.eql(3)
+      expect(none.isNone()).to.eql(true)
+    })
+
+    it('derived options are not frozen', () => {
+      const mapped = Option.Some(1).freeze().map(n => n + 1)
+      expect(mapped.isFrozen()).to.eql(false)
+      expect(mapped.take()).to.eql(Option.Some(2))
+    })
+  })
+
+  describe('#isFrozen', () => {
+    it('returns true only for frozen options', () => {
+      const opt = Option.Some(1)
+      expect(opt.isFrozen()).to.eql(false)
+      expect(opt.freeze().isFrozen()).to.eql(true)
+    })
+  })
+  describe('#update', () => {
+    it('replaces the value in place', () => {
+      const opt = Option.Some(1)
+      expect(opt.update(n => n + 1)).to.equal(opt)
+      expect(opt).to.eql(Option.Some(2))
+    })
+
+    it('does nothing for none', () => {
+      let called = false
+      const opt = Option.None<number>().update(n => {
+        called = true
+        return n
+      })
+      expect(opt).to.eql(Option.None())
+      expect(called).to.eql(false)
+    })
+
+    it('fails for frozen options', () => {
+      const opt = Option.Some(1)
+      opt.freeze()
+      expect(() => opt.update(n => n + 1)).to.throw(Error)
+    })
+  })
+
+  describe('#asMut', () => {
+    it('returns none for none', () => {
+      expect(Option.None().asMut()).to.eql(Option.None())
+    })
+
+    it('returns a handle that reads and writes the option', () => {
+      const opt = Option.Some('foo')
+      const ref = opt.asMut().unwrap()
+      expect(ref.get()).to.eql('foo')
+      ref.set('bar')
+      expect(opt).to.eql(Option.Some('bar'))
+      expect(ref.get()).to.eql('bar')
+    })
+  })
+
+  describe('#cloned', () => {
+    it('deep copies the value by default', () => {
+      const original = Option.Some({tags: ['a'], at: new Date(0)})
+      const copy = original.cloned()
+      copy.unwrap().tags.push('b')
+      expect(original.unwrap().tags).to.eql(['a'])
+      expect(copy.unwrap().at).to.eql(new Date(0))
+    })
+
+    it('can use a custom copy function', () => {
+      const original = Option.Some([1, 2])
+      expect(original.cloned(arr => arr.slice(1))).to.eql(Option.Some([2]))
+    })
+
+    it('returns none for none', () => {
+      expect(Option.None().cloned()).to.eql(Option.None())
+    })
+  })
+
+  describe('foreign options', () => {
+    // Mimics an option created by another copy of the library.
+    class ForeignOption<T> {
+      constructor (private readonly content: T | undefined, private readonly present: boolean) {}
+
+      get [Symbol.for('nochoices.option')] (): true {
+        return true
+      }
+
+      isSome (): boolean {
+        return this.present
+      }
+
+      unwrap (): T {
+        if (!this.present) {
+          throw new Error('unwrap over None.')
+        }
+        return this.content as T
+      }
+    }
+
+    describe('#isOption', () => {
+      it('returns true for options', () => {
+        expect(Option.isOption(Option.Some(1))).to.eql(true)
+        expect(Option.isOption(Option.None())).to.eql(true)
+      })
+
+      it('returns true for options of other copies', () => {
+        expect(Option.isOption(new ForeignOption(1, true))).to.eql(true)
+      })
+
+      it('returns false for any other value', () => {
+        expect(Option.isOption(null)).to.eql(false)
+        expect(Option.isOption(undefined)).to.eql(false)
+        expect(Option.isOption(1)).to.eql(false)
+        expect(Option.isOption({ value: 1 })).to.eql(false)
+      })
+    })
+
+    describe('#adopt', () => {
+      it('returns local options as they are', () => {
+        const opt = Option.Some(1)
+        expect(Option.adopt(opt)).to.equal(opt)
+      })
+
+      it('rewraps foreign options into local ones', () => {
+        const some = Option.adopt(new ForeignOption(1, true))
+        expect(some).to.be.instanceOf(Option)
+        expect(some).to.eql(Option.Some(1))
+        expect(Option.adopt(new ForeignOption<number>(undefined, false))).to.eql(Option.None())
+      })
+
+      it('throws for values that are not options', () => {
+        expect(() => Option.adopt({ isSome: () => true, unwrap: () => 1 })).to.throw(TypeError)
+      })
+    })
+
+    it('can be flattened', () => {
+      const nested = Option.Some(new ForeignOption('foo', true) as unknown as Option<string>)
+      const flat = nested.flatten()
+      expect(flat).to.be.instanceOf(Option)
+      expect(flat).to.eql(Option.Some('foo'))
+    })
+
+    it('are compared by content', () => {
+      const foreign = new ForeignOption(1, true) as unknown as Option<number>
+      expect(Option.Some(foreign).equalsDeep(Option.Some(Option.Some(1)))).to.eql(true)
+      expect(Option.Some(foreign).equalsDeep(Option.Some(Option.Some(2)))).to.eql(false)
+    })
+  })
+})
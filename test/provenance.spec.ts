@@ -0,0 +1,89 @@
+import {afterEach, beforeEach, describe, it} from 'mocha'
+import {expect} from 'chai'
+import {Option, UnwrapNoneError} from "../src/index.js"
+
+describe('provenance', () => {
+  describe('when tracking is disabled', () => {
+    it('does not record anything', () => {
+      expect(Option.None({ reason: 'missing' }).provenance().isNone()).to.eql(true)
+      expect(Option.fromNullable(null).provenance().isNone()).to.eql(true)
+    })
+
+    it('does not change the unwrap message', () => {
+      expect(() => Option.None().unwrap()).to.throw(UnwrapNoneError, /^unwrap over None\.$/)
+    })
+  })
+
+  describe('when tracking is enabled', () => {
+    beforeEach(() => {
+      Option.trackProvenance()
+    })
+
+    afterEach(() => {
+      Option.trackProvenance(false)
+    })
+
+    it('records the reason given to None', () => {
+      const provenance = Option.None({ reason: 'user not found' }).provenance().unwrap()
+      expect(provenance.operation).to.eql('None')
+      expect(provenance.reason).to.eql('user not found')
+    })
+
+    it('records a stack trace', () => {
+      const provenance = Option.None().provenance().unwrap()
+      expect(provenance.stack).to.be.a('string')
+      expect(provenance.stack).to.include('provenance.spec')
+    })
+
+    it('records fromNullable', () => {
+      expect(Option.fromNullable(undefined).provenance().unwrap().operation).to.eql('fromNullable')
+    })
+
+    it('records the reason of a failed filter', () => {
+      const provenance = Option.Some(-1).filter(n => n > 0, 'must be positive').provenance().unwrap()
+      expect(provenance.operation).to.eql('filter')
+      expect(provenance.reason).to.eql('must be positive')
+    })
+
+    it('records take', () => {
+      const opt = Option.Some(1)
+      opt.take()
+      expect(opt.provenance().unwrap().operation).to.eql('take')
+    })
+
+    it('does not record anything for some', () => {
+      expect(Option.Some(1).provenance().isNone()).to.eql(true)
+    })
+
+    it('keeps the provenance through map, andThen and zip', () => {
+      const opt = Option.None<number>({ reason: 'origin' })
+        .map(n => n + 1)
+        .andThen(n => Option.Some(n * 2))
+        .zip(Option.Some('foo'))
+      expect(opt.provenance().unwrap().reason).to.eql('origin')
+    })
+
+    it('keeps the provenance when zipping some with none', () => {
+      const opt = Option.Some(1).zip(Option.None({ reason: 'second' }))
+      expect(opt.provenance().unwrap().reason).to.eql('second')
+    })
+
+    it('includes the provenance in the unwrap error', () => {
+      const opt = Option.Some(-1).filter(n => n > 0, 'must be positive').map(n => n * 2)
+      try {
+        opt.unwrap()
+        expect.fail('unwrap should throw')
+      } catch (e) {
+        expect(e).to.be.instanceOf(UnwrapNoneError)
+        const error = e as UnwrapNoneError
+        expect(error.provenance?.operation).to.eql('filter')
+        expect(error.message).to.include('None created by filter: must be positive')
+      }
+    })
+
+    it('stops recording when tracking is disabled again', () => {
+      Option.trackProvenance(false)
+      expect(Option.None().provenance().isNone()).to.eql(true)
+    })
+  })
+})
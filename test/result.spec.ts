@@ -0,0 +1,264 @@
+import {describe, it} from 'mocha'
+import {expect} from 'chai'
+import {Option, Result} from "../src/index.js"
+
+describe('Result', () => {
+  describe('#isOk / #isErr', () => {
+    it('Ok is ok and not err', () => {
+      const ok = Result.Ok(1)
+      expect(ok.isOk()).to.eql(true)
+      expect(ok.isErr()).to.eql(false)
+    })
+
+    it('Err is err and not ok', () => {
+      const err = Result.Err('foo')
+      expect(err.isOk()).to.eql(false)
+      expect(err.isErr()).to.eql(true)
+    })
+  })
+
+  describe('#isOkAnd', () => {
+    it('Ok returns the result of the predicate', () => {
+      expect(Result.Ok(10).isOkAnd(n => n > 5)).to.eql(true)
+      expect(Result.Ok(1).isOkAnd(n => n > 5)).to.eql(false)
+    })
+
+    it('Err returns false without calling the predicate', () => {
+      const err = Result.Err<number, string>('foo')
+      const res = err.isOkAnd(() => expect.fail('should not be called'))
+      expect(res).to.eql(false)
+    })
+  })
+
+  describe('#isErrAnd', () => {
+    it('Err returns the result of the predicate', () => {
+      expect(Result.Err('foo').isErrAnd(e => e === 'foo')).to.eql(true)
+      expect(Result.Err('bar').isErrAnd(e => e === 'foo')).to.eql(false)
+    })
+
+    it('Ok returns false without calling the predicate', () => {
+      const ok = Result.Ok<number, string>(10)
+      const res = ok.isErrAnd(() => expect.fail('should not be called'))
+      expect(res).to.eql(false)
+    })
+  })
+
+  describe('#ok', () => {
+    it('Ok returns Some with the value', () => {
+      expect(Result.Ok(10).ok()).to.eql(Option.Some(10))
+    })
+
+    it('Err returns None', () => {
+      expect(Result.Err('foo').ok()).to.eql(Option.None())
+    })
+  })
+
+  describe('#err', () => {
+    it('Ok returns None', () => {
+      expect(Result.Ok(10).err()).to.eql(Option.None())
+    })
+
+    it('Err returns Some with the error', () => {
+      expect(Result.Err('foo').err()).to.eql(Option.Some('foo'))
+    })
+  })
+
+  describe('#map', () => {
+    it('Ok maps the value', () => {
+      const res = Result.Ok(5).map(n => n * 2)
+      expect(res.unwrap()).to.eql(10)
+    })
+
+    it('Err keeps the error and does not call the fn', () => {
+      const res = Result.Err<number, string>('foo').map(() => expect.fail('should not be called'))
+      expect(res.unwrapErr()).to.eql('foo')
+    })
+  })
+
+  describe('#mapErr', () => {
+    it('Ok keeps the value and does not call the fn', () => {
+      const res = Result.Ok<number, string>(10).mapErr(() => expect.fail('should not be called'))
+      expect(res.unwrap()).to.eql(10)
+    })
+
+    it('Err maps the error', () => {
+      const res = Result.Err('foo').mapErr(e => e.length)
+      expect(res.unwrapErr()).to.eql(3)
+    })
+  })
+
+  describe('#mapOr', () => {
+    it('Ok returns the transformed value', () => {
+      expect(Result.Ok(5).mapOr(0, n => n * 2)).to.eql(10)
+    })
+
+    it('Err returns the default', () => {
+      expect(Result.Err<number, string>('foo').mapOr(0, n => n * 2)).to.eql(0)
+    })
+  })
+
+  describe('#mapOrElse', () => {
+    it('Ok returns the transformed value', () => {
+      expect(Result.Ok<number, string>(5).mapOrElse(e => e.length, n => n * 2)).to.eql(10)
+    })
+
+    it('Err returns the value generated from the error', () => {
+      expect(Result.Err<number, string>('foo').mapOrElse(e => e.length, n => n * 2)).to.eql(3)
+    })
+  })
+
+  describe('#unwrap', () => {
+    it('Ok returns the value', () => {
+      const obj = {}
+      expect(Result.Ok(obj).unwrap()).to.equal(obj)
+    })
+
+    it('Err throws an error with the contained error as cause', () => {
+      const err = Result.Err('foo')
+      expect(() => err.unwrap()).to.throw(Error, 'unwrap over Err.')
+      try {
+        err.unwrap()
+      } catch (e) {
+        expect((e as Error).cause).to.eql('foo')
+      }
+    })
+  })
+
+  describe('#unwrapErr', () => {
+    it('Ok throws an error', () => {
+      expect(() => Result.Ok(10).unwrapErr()).to.throw(Error, 'unwrapErr over Ok.')
+    })
+
+    it('Err returns the error', () => {
+      expect(Result.Err('foo').unwrapErr()).to.eql('foo')
+    })
+  })
+
+  describe('#expect', () => {
+    it('Ok returns the value', () => {
+      expect(Result.Ok(10).expect(new Error('no value'))).to.eql(10)
+    })
+
+    it('Err throws the given error', () => {
+      const err = new Error('no value')
+      expect(() => Result.Err('foo').expect(err)).to.throw(err)
+    })
+  })
+
+  describe('#expectErr', () => {
+    it('Ok throws the given error', () => {
+      const err = new Error('was ok')
+      expect(() => Result.Ok(10).expectErr(err)).to.throw(err)
+    })
+
+    it('Err returns the error', () => {
+      expect(Result.Err('foo').expectErr(new Error('was ok'))).to.eql('foo')
+    })
+  })
+
+  describe('#unwrapOr', () => {
+    it('Ok returns the value', () => {
+      expect(Result.Ok('foo').unwrapOr('bar')).to.eql('foo')
+    })
+
+    it('Err returns the default', () => {
+      expect(Result.Err<string, number>(1).unwrapOr('bar')).to.eql('bar')
+    })
+  })
+
+  describe('#unwrapOrElse', () => {
+    it('Ok returns the value without calling the fn', () => {
+      const ok = Result.Ok<number, string>(10)
+      expect(ok.unwrapOrElse(() => expect.fail('should not be called'))).to.eql(10)
+    })
+
+    it('Err calls the fn with the error', () => {
+      expect(Result.Err<number, string>('foo').unwrapOrElse(e => e.length)).to.eql(3)
+    })
+  })
+
+  describe('#and', () => {
+    it('Ok returns the argument', () => {
+      expect(Result.Ok(1).and(Result.Ok('foo')).unwrap()).to.eql('foo')
+      expect(Result.Ok<number, string>(1).and(Result.Err('bar')).unwrapErr()).to.eql('bar')
+    })
+
+    it('Err returns its own error', () => {
+      expect(Result.Err('foo').and(Result.Ok(1)).unwrapErr()).to.eql('foo')
+      expect(Result.Err('foo').and(Result.Err('bar')).unwrapErr()).to.eql('foo')
+    })
+  })
+
+  describe('#andThen', () => {
+    const parse = (s: string): Result<number, string> => {
+      const n = Number(s)
+      return isNaN(n) ? Result.Err('not a number') : Result.Ok(n)
+    }
+
+    it('Ok calls the fn with the value', () => {
+      expect(Result.Ok<string, string>('10').andThen(parse).unwrap()).to.eql(10)
+      expect(Result.Ok<string, string>('foo').andThen(parse).unwrapErr()).to.eql('not a number')
+    })
+
+    it('Err does not call the fn', () => {
+      const res = Result.Err<string, string>('foo').andThen(() => expect.fail('should not be called'))
+      expect(res.unwrapErr()).to.eql('foo')
+    })
+  })
+
+  describe('#or', () => {
+    it('Ok returns itself', () => {
+      expect(Result.Ok(1).or(Result.Ok(2)).unwrap()).to.eql(1)
+      expect(Result.Ok(1).or(Result.Err('foo')).unwrap()).to.eql(1)
+    })
+
+    it('Err returns the argument', () => {
+      expect(Result.Err<number, string>('foo').or(Result.Ok(2)).unwrap()).to.eql(2)
+      expect(Result.Err<number, string>('foo').or(Result.Err('bar')).unwrapErr()).to.eql('bar')
+    })
+  })
+
+  describe('#orElse', () => {
+    it('Ok does not call the fn', () => {
+      const res = Result.Ok<number, string>(1).orElse(() => expect.fail('should not be called'))
+      expect(res.unwrap()).to.eql(1)
+    })
+
+    it('Err calls the fn with the error', () => {
+      const res = Result.Err<number, string>('foo').orElse(e => Result.Ok(e.length))
+      expect(res.unwrap()).to.eql(3)
+    })
+  })
+
+  describe('#ifOk / #ifErr', () => {
+    it('Ok only executes ifOk', () => {
+      const ok = Result.Ok('foo')
+      let received: string | null = null
+      const res = ok
+          .ifOk(v => { received = v })
+          .ifErr(() => expect.fail('should not be called'))
+      expect(received).to.eql('foo')
+      expect(res).to.equal(ok)
+    })
+
+    it('Err only executes ifErr', () => {
+      const err = Result.Err('foo')
+      let received: string | null = null
+      const res = err
+          .ifOk(() => expect.fail('should not be called'))
+          .ifErr(e => { received = e })
+      expect(received).to.eql('foo')
+      expect(res).to.equal(err)
+    })
+  })
+
+  describe('#toArray', () => {
+    it('Ok returns an array with the value', () => {
+      expect(Result.Ok('foo').toArray()).to.eql(['foo'])
+    })
+
+    it('Err returns an empty array', () => {
+      expect(Result.Err('foo').toArray()).to.eql([])
+    })
+  })
+})
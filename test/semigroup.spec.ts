@@ -0,0 +1,41 @@
+import {describe, it} from 'mocha'
+import {expect} from 'chai'
+import {Option, semigroups} from "../src/index.js"
+
+describe('semigroups', () => {
+  it('combine numbers', () => {
+    expect(semigroups.sum(2, 3)).to.eql(5)
+    expect(semigroups.product(2, 3)).to.eql(6)
+    expect(semigroups.min(2, 3)).to.eql(2)
+    expect(semigroups.max(2, 3)).to.eql(3)
+  })
+
+  it('concat strings and arrays', () => {
+    expect(semigroups.concatStrings('foo', 'bar')).to.eql('foobar')
+    expect(semigroups.concatArrays([1], [2, 3])).to.eql([1, 2, 3])
+  })
+
+  it('keep the first or the last value', () => {
+    expect(semigroups.first('a', 'b')).to.eql('a')
+    expect(semigroups.last('a', 'b')).to.eql('b')
+  })
+
+  it('merge objects giving precedence to the second one', () => {
+    const a: Record<string, number> = {a: 1, b: 1}
+    expect(semigroups.mergeObjects(a, {b: 2, c: 2})).to.eql({a: 1, b: 2, c: 2})
+    expect(a).to.eql({a: 1, b: 1})
+  })
+
+  describe('fold', () => {
+    it('combines the somes using the monoid', () => {
+      expect(semigroups.fold([Option.Some(2), Option.None(), Option.Some(3)], semigroups.productMonoid)).to.eql(6)
+      expect(semigroups.fold([Option.Some('a'), Option.Some('b')], semigroups.stringMonoid)).to.eql('ab')
+      expect(semigroups.fold([Option.Some([1]), Option.Some([2])], semigroups.arrayMonoid<number>())).to.eql([1, 2])
+    })
+
+    it('returns the identity when there are no somes', () => {
+      expect(semigroups.fold([], semigroups.sumMonoid)).to.eql(0)
+      expect(semigroups.fold([Option.None()], semigroups.objectMonoid<{ a: number }>())).to.eql({})
+    })
+  })
+})
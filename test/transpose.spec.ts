@@ -0,0 +1,46 @@
+import {describe} from "mocha";
+import {Option, Result} from "../src/index.js";
+import {transpose} from "../src/transpose.js";
+import {expect} from "chai";
+
+describe('transpose', () => {
+  describe('Option<Result<T, E>>', () => {
+    it('None returns Ok(None)', () => {
+      const opt: Option<Result<number, string>> = Option.None()
+      const res = transpose(opt)
+      expect(res.unwrap().isNone()).to.eql(true)
+    })
+
+    it('Some(Ok(v)) returns Ok(Some(v))', () => {
+      const opt: Option<Result<number, string>> = Option.Some(Result.Ok(10))
+      const res = transpose(opt)
+      expect(res.unwrap().unwrap()).to.eql(10)
+    })
+
+    it('Some(Err(e)) returns Err(e)', () => {
+      const opt: Option<Result<number, string>> = Option.Some(Result.Err('foo'))
+      const res = transpose(opt)
+      expect(res.unwrapErr()).to.eql('foo')
+    })
+  })
+
+  describe('Result<Option<T>, E>', () => {
+    it('Ok(None) returns None', () => {
+      const res: Result<Option<number>, string> = Result.Ok(Option.None())
+      const opt = transpose(res)
+      expect(opt.isNone()).to.eql(true)
+    })
+
+    it('Ok(Some(v)) returns Some(Ok(v))', () => {
+      const res: Result<Option<number>, string> = Result.Ok(Option.Some(10))
+      const opt = transpose(res)
+      expect(opt.unwrap().unwrap()).to.eql(10)
+    })
+
+    it('Err(e) returns Some(Err(e))', () => {
+      const res: Result<Option<number>, string> = Result.Err('foo')
+      const opt = transpose(res)
+      expect(opt.unwrap().unwrapErr()).to.eql('foo')
+    })
+  })
+})
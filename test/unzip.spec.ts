@@ -1,6 +1,6 @@
 import {describe} from "mocha";
 import {Option} from "../src/index.js";
-import {unzip} from "../src/unzip.js";
+import {unzip, unzipN} from "../src/unzip.js";
 import {expect} from "chai";
 
 describe('unzip', () => {
@@ -15,4 +15,20 @@ describe('unzip', () => {
     const unzipped = unzip(none)
     expect(unzipped).to.eql([Option.Some(123), Option.Some('foo')])
   })
-})
\ No newline at end of file
+})
+
+describe('unzipN', () => {
+  it('for none returns a tuple of nones of the given size', () => {
+    const none: Option<[number, string, boolean]> = Option.None()
+    const unzipped = unzipN(none, 3)
+    expect(unzipped).to.eql([Option.None(), Option.None(), Option.None()])
+  })
+
+  it('for some returns a tuple with each value wrapped', () => {
+    const some: Option<[number, string, boolean]> = Option.Some([123, 'foo', true])
+    const [a, b, c] = unzipN(some, 3)
+    expect(a.unwrap()).to.eql(123)
+    expect(b.unwrap()).to.eql('foo')
+    expect(c.unwrap()).to.eql(true)
+  })
+})